@@ -1,5 +1,5 @@
 
-import { GoogleGenAI, GenerateContentResponse, Type } from "@google/genai";
+import { GoogleGenAI, GenerateContentResponse, Type, Schema } from "@google/genai";
 import OpenAI from "openai";
 import Anthropic from "@anthropic-ai/sdk";
 import React, { useState, useMemo, useEffect, useCallback, useReducer, useRef, memo } from 'react';
@@ -25,10 +25,9 @@ const AI_MODELS = {
         'gemma2-9b-it',
         'llama3-70b-8192',
         'llama3-8b-8192',
-        'mixtral-8x7b-32768',
-        'gemma-7b-it',
         'meta-llama/llama-4-scout-17b-16e-instruct',
-    ]
+    ],
+    LOCAL_DEFAULT: 'llama3.1',
 };
 
 
@@ -36,10 +35,13 @@ const AI_MODELS = {
 // WORD COUNT ENFORCEMENT (2,500-3,000 WORDS MANDATORY)
 // ════════════════════════════════════════════════════════════════════════════════
 
-function enforceWordCount(content, minWords = 2500, maxWords = 3000) {
+function countWords(content) {
     const textOnly = content.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
-    const words = textOnly.split(/\s+/).filter(w => w.length > 0);
-    const wordCount = words.length;
+    return textOnly.split(/\s+/).filter(w => w.length > 0).length;
+}
+
+function enforceWordCount(content, minWords = 2500, maxWords = 3000) {
+    const wordCount = countWords(content);
 
     console.log(`📊 Word Count: ${wordCount} (target: ${minWords}-${maxWords})`);
 
@@ -54,53 +56,26 @@ function enforceWordCount(content, minWords = 2500, maxWords = 3000) {
     return wordCount;
 }
 
-function checkHumanWritingScore(content) {
-    const aiPhrases = [
-        'delve into', 'in today\'s digital landscape', 'revolutionize', 'game-changer',
-        'unlock', 'leverage', 'robust', 'seamless', 'cutting-edge', 'elevate', 'empower',
-        'it\'s important to note', 'it\'s worth mentioning', 'needless to say',
-        'in conclusion', 'to summarize', 'in summary', 'holistic', 'paradigm shift',
-        'utilize', 'commence', 'endeavor', 'facilitate', 'implement', 'demonstrate',
-        'ascertain', 'procure', 'terminate', 'disseminate', 'expedite',
-        'in order to', 'due to the fact that', 'for the purpose of', 'with regard to',
-        'in the event that', 'at this point in time', 'for all intents and purposes',
-        'furthermore', 'moreover', 'additionally', 'consequently', 'nevertheless',
-        'notwithstanding', 'aforementioned', 'heretofore', 'whereby', 'wherein',
-        'landscape', 'realm', 'sphere', 'domain', 'ecosystem', 'framework',
-        'navigate', 'embark', 'journey', 'transform', 'transition',
-        'plethora', 'myriad', 'multitude', 'abundance', 'copious',
-        'crucial', 'vital', 'essential', 'imperative', 'paramount',
-        'optimize', 'maximize', 'enhance', 'augment', 'amplify',
-        'intricate', 'nuanced', 'sophisticated', 'elaborate', 'comprehensive',
-        'comprehensive guide', 'ultimate guide', 'complete guide',
-        'dive deep', 'take a deep dive', 'let\'s explore', 'let\'s dive in'
-    ];
-
-    let aiScore = 0;
-    const lowerContent = content.toLowerCase();
-
-    aiPhrases.forEach(phrase => {
-        const count = (lowerContent.match(new RegExp(phrase, 'g')) || []).length;
-        if (count > 0) {
-            aiScore += (count * 10);
-            console.warn(`⚠️  AI phrase detected ${count}x: "${phrase}"`);
-        }
-    });
-
-    const sentences = content.match(/[^.!?]+[.!?]+/g) || [];
-    if (sentences.length > 0) {
-        const avgLength = sentences.reduce((sum, s) => sum + s.split(/\s+/).length, 0) / sentences.length;
-        if (avgLength > 25) {
-            aiScore += 15;
-            console.warn(`⚠️  Average sentence too long (${avgLength.toFixed(1)} words)`);
-        }
-    }
-
-    const humanScore = Math.max(0, 100 - aiScore);
-    console.log(`🤖 Human Writing Score: ${humanScore}% (target: 100%)`);
-
-    return humanScore;
-}
+const AI_PHRASES_EN = [
+    'delve into', 'in today\'s digital landscape', 'revolutionize', 'game-changer',
+    'unlock', 'leverage', 'robust', 'seamless', 'cutting-edge', 'elevate', 'empower',
+    'it\'s important to note', 'it\'s worth mentioning', 'needless to say',
+    'in conclusion', 'to summarize', 'in summary', 'holistic', 'paradigm shift',
+    'utilize', 'commence', 'endeavor', 'facilitate', 'implement', 'demonstrate',
+    'ascertain', 'procure', 'terminate', 'disseminate', 'expedite',
+    'in order to', 'due to the fact that', 'for the purpose of', 'with regard to',
+    'in the event that', 'at this point in time', 'for all intents and purposes',
+    'furthermore', 'moreover', 'additionally', 'consequently', 'nevertheless',
+    'notwithstanding', 'aforementioned', 'heretofore', 'whereby', 'wherein',
+    'landscape', 'realm', 'sphere', 'domain', 'ecosystem', 'framework',
+    'navigate', 'embark', 'journey', 'transform', 'transition',
+    'plethora', 'myriad', 'multitude', 'abundance', 'copious',
+    'crucial', 'vital', 'essential', 'imperative', 'paramount',
+    'optimize', 'maximize', 'enhance', 'augment', 'amplify',
+    'intricate', 'nuanced', 'sophisticated', 'elaborate', 'comprehensive',
+    'comprehensive guide', 'ultimate guide', 'complete guide',
+    'dive deep', 'take a deep dive', 'let\'s explore', 'let\'s dive in'
+];
 
 console.log('✅ Schema handler & word count enforcer loaded');
 
@@ -155,16 +130,230 @@ console.log('✅ YouTube video deduplication function loaded');
 // ==========================================
 // CONTENT & SEO REQUIREMENTS
 // ==========================================
-const TARGET_MIN_WORDS = 2200; // Increased for higher quality
-const TARGET_MAX_WORDS = 2800;
-const TARGET_MIN_WORDS_PILLAR = 3500; // Increased for depth
-const TARGET_MAX_WORDS_PILLAR = 4500;
-const YOUTUBE_EMBED_COUNT = 2;
-const MIN_INTERNAL_LINKS = 8; // User wants 8-12, this is the floor
+const DEFAULT_SECTION_CONCURRENCY = 4; // Sections and FAQ answers written at once per article
+const MAX_SECTION_CONCURRENCY = 10;
+const MAX_EXPANSION_ROUNDS = 3; // Attempts to lengthen thin sections before the word-count gate fails
+const SECTIONS_EXPANDED_PER_ROUND = 3;
 const MAX_INTERNAL_LINKS = 15;
-const MIN_TABLES = 3;
-const FAQ_COUNT = 8;
-const KEY_TAKEAWAYS = 8;
+
+/**
+ * A named set of length and structure requirements. Each item type is assigned a profile, whose
+ * values fill the `{{...}}` tokens of the prompt templates and set the quality gates.
+ */
+type ContentProfile = {
+    id: string;
+    name: string;
+    minWords: number;
+    maxWords: number;
+    sectionMinWords: number;
+    sectionMaxWords: number;
+    minHeadings: number; // H2 sections in the outline
+    maxHeadings: number;
+    keyTakeaways: number;
+    faqCount: number;
+    minInternalLinks: number;
+    minTables: number;
+    youtubeEmbeds: number; // At most 2; the article has two video slots
+};
+
+type ContentProfileField = Exclude<keyof ContentProfile, 'id' | 'name'>;
+
+const DEFAULT_CONTENT_PROFILES: ContentProfile[] = [
+    { id: 'short-news', name: 'Short news', minWords: 600, maxWords: 1000, sectionMinWords: 120, sectionMaxWords: 180, minHeadings: 4, maxHeadings: 6, keyTakeaways: 4, faqCount: 4, minInternalLinks: 3, minTables: 0, youtubeEmbeds: 0 },
+    { id: 'standard-cluster', name: 'Standard cluster', minWords: 2200, maxWords: 2800, sectionMinWords: 250, sectionMaxWords: 300, minHeadings: 10, maxHeadings: 15, keyTakeaways: 8, faqCount: 8, minInternalLinks: 8, minTables: 3, youtubeEmbeds: 2 },
+    { id: 'pillar', name: 'Pillar', minWords: 3500, maxWords: 4500, sectionMinWords: 280, sectionMaxWords: 350, minHeadings: 12, maxHeadings: 15, keyTakeaways: 8, faqCount: 8, minInternalLinks: 8, minTables: 3, youtubeEmbeds: 2 },
+];
+
+type ProfileAssignments = Record<'pillar' | 'cluster' | 'standard', string>;
+
+const DEFAULT_PROFILE_ASSIGNMENTS: ProfileAssignments = { pillar: 'pillar', cluster: 'standard-cluster', standard: 'standard-cluster' };
+
+// Used by stages that run outside an item, e.g. health analysis.
+const DEFAULT_CONTENT_PROFILE = DEFAULT_CONTENT_PROFILES.find(p => p.id === DEFAULT_PROFILE_ASSIGNMENTS.standard)!;
+
+// The lowest value each field accepts. Outlines need at least one heading, takeaway and question.
+const CONTENT_PROFILE_FIELDS: { key: ContentProfileField; label: string; min: number; max?: number }[] = [
+    { key: 'minWords', label: 'Min words', min: 100 },
+    { key: 'maxWords', label: 'Max words', min: 100 },
+    { key: 'sectionMinWords', label: 'Section min words', min: 50 },
+    { key: 'sectionMaxWords', label: 'Section max words', min: 50 },
+    { key: 'minHeadings', label: 'Min H2 sections', min: 1 },
+    { key: 'maxHeadings', label: 'Max H2 sections', min: 1 },
+    { key: 'keyTakeaways', label: 'Key takeaways', min: 1 },
+    { key: 'faqCount', label: 'FAQ questions', min: 1 },
+    { key: 'minInternalLinks', label: 'Min internal links', min: 0 },
+    { key: 'minTables', label: 'Min tables', min: 0 },
+    { key: 'youtubeEmbeds', label: 'YouTube embeds', min: 0, max: 2 },
+];
+
+/**
+ * Looks up the profile assigned to an item type, falling back to the first profile. Each maximum
+ * is raised to its minimum so an edited profile can never ask for an empty range.
+ */
+const resolveContentProfile = (profiles: ContentProfile[], assignments: ProfileAssignments, itemType: keyof ProfileAssignments): ContentProfile => {
+    const profile = profiles.find(p => p.id === assignments[itemType]) || profiles[0] || DEFAULT_CONTENT_PROFILE;
+    return {
+        ...profile,
+        maxWords: Math.max(profile.maxWords, profile.minWords),
+        sectionMaxWords: Math.max(profile.sectionMaxWords, profile.sectionMinWords),
+        maxHeadings: Math.max(profile.maxHeadings, profile.minHeadings),
+    };
+};
+
+/** Fills a system instruction's profile tokens, e.g. `{{FAQ_COUNT}}`. */
+const applyContentProfile = (systemInstruction: string, profile: ContentProfile): string => systemInstruction
+    .replace(/\{\{KEY_TAKEAWAYS\}\}/g, String(profile.keyTakeaways))
+    .replace(/\{\{MIN_HEADINGS\}\}/g, String(profile.minHeadings))
+    .replace(/\{\{MAX_HEADINGS\}\}/g, String(profile.maxHeadings))
+    .replace(/\{\{FAQ_COUNT\}\}/g, String(profile.faqCount))
+    .replace(/\{\{SECTION_MIN_WORDS\}\}/g, String(profile.sectionMinWords))
+    .replace(/\{\{SECTION_MAX_WORDS\}\}/g, String(profile.sectionMaxWords))
+    .replace('{{TABLE_INSTRUCTIONS}}', profile.minTables > 0 ? `The article needs at least ${profile.minTables} tables in total, so use a table wherever this section has comparable data.` : '');
+
+/**
+ * A site's brand voice and style guide. It replaces the `{{VOICE_INSTRUCTIONS}}` token of every
+ * writing prompt, and its banned terms are also flagged by `buildHumanWritingReport`.
+ */
+type VoiceProfile = {
+    id: string;
+    name: string;
+    tone: string;
+    readingLevel: string;
+    pointOfView: string;
+    bannedTerms: string[]; // Kept as typed, one per line; blank lines are skipped when used
+    preferredTerms: string[];
+    samples: string; // Sample paragraphs written in the voice
+};
+
+const DEFAULT_VOICE_PROFILES: VoiceProfile[] = [
+    {
+        id: 'direct',
+        name: 'Direct & punchy',
+        tone: 'Confident, practical and blunt, like a world-class thought leader such as Alex Hormozi. Short, direct sentences: average 10 words, max 15. Tiny paragraphs of 2-3 sentences. Use contractions ("it\'s", "you\'ll", "can\'t"), active voice and simple language with no filler. Ask the reader direct questions and use analogies.',
+        readingLevel: 'Grade 6-8',
+        pointOfView: 'Second person: talk to the reader as "you"',
+        bannedTerms: ['delve into', 'in today\'s digital landscape', 'revolutionize', 'game-changer', 'unlock', 'leverage', 'in conclusion', 'to summarize', 'utilize', 'furthermore', 'moreover', 'landscape', 'realm', 'dive deep'],
+        preferredTerms: [],
+        samples: '',
+    },
+];
+
+const DEFAULT_VOICE_PROFILE = DEFAULT_VOICE_PROFILES[0];
+
+const cleanTermList = (terms: string[]): string[] => terms.map(term => term.trim()).filter(Boolean);
+
+/** The voice profile id chosen for each site, keyed by `getSiteKey`. '' holds the choice for no site. */
+type SiteVoiceAssignments = Record<string, string>;
+
+/** A site's host name without "www.", or '' when there is no usable URL. */
+const getSiteKey = (url: string | null | undefined): string => {
+    if (!url?.trim()) return '';
+    try {
+        return new URL(url.includes('://') ? url : `https://${url}`).hostname.replace(/^www\./, '');
+    } catch {
+        return '';
+    }
+};
+
+/** The voice for a site: its own choice, else the choice for no site, else the first profile. */
+const resolveVoiceProfile = (voices: VoiceProfile[], assignments: SiteVoiceAssignments, siteKey: string): VoiceProfile =>
+    voices.find(voice => voice.id === (assignments[siteKey] || assignments[''])) || voices[0] || DEFAULT_VOICE_PROFILE;
+
+/** Renders a voice profile as the style rules of a writing prompt. */
+const formatVoiceInstructions = (voice: VoiceProfile): string => {
+    const preferredTerms = cleanTermList(voice.preferredTerms);
+    const bannedTerms = cleanTermList(voice.bannedTerms);
+    return [
+        `**BRAND VOICE ("${voice.name}"):**`,
+        voice.tone.trim() && `    - Tone: ${voice.tone.trim()}`,
+        voice.readingLevel.trim() && `    - Reading level: ${voice.readingLevel.trim()}`,
+        voice.pointOfView.trim() && `    - Point of view: ${voice.pointOfView.trim()}`,
+        preferredTerms.length > 0 && `    - Preferred terms (use them where they fit): ${preferredTerms.map(term => `'${term}'`).join(', ')}`,
+        bannedTerms.length > 0 && `    - FORBIDDEN TERMS (ZERO TOLERANCE): ❌ ${bannedTerms.map(term => `'${term}'`).join(', ')}`,
+        voice.samples.trim() && `    - Match the voice of these sample paragraphs; don't copy them:\n<voice_samples>\n${voice.samples.trim()}\n</voice_samples>`,
+    ].filter(Boolean).join('\n');
+};
+
+// ==========================================
+// CONTENT LANGUAGES
+// ==========================================
+type ContentLanguage = 'en' | 'de' | 'es';
+
+/** Everything that changes with the language an article is written in. */
+type LanguageConfig = {
+    name: string; // In English, for the prompts
+    nativeName: string;
+    serperLocale: { hl: string; gl: string } | null; // null keeps Serper's English/US default
+    headings: { keyTakeaways: string; faq: string; references: string };
+    videoQueries: (topic: string) => string[];
+    aiPhrases: string[];
+    technicalTerms: string[]; // Set phrases that contain a flagged word but are plain usage, e.g. "domain name"
+    syllablePattern: RegExp | null; // Vowel groups counted as syllables; null uses the English heuristic
+    flesch: { base: number; sentenceWeight: number; syllableWeight: number }; // base - sentenceWeight * words/sentence - syllableWeight * syllables/word
+};
+
+const CONTENT_LANGUAGES: Record<ContentLanguage, LanguageConfig> = {
+    en: {
+        name: 'English',
+        nativeName: 'English',
+        serperLocale: null,
+        headings: { keyTakeaways: 'Key Takeaways', faq: 'Frequently Asked Questions', references: 'References' },
+        videoQueries: topic => [`"${topic}" tutorial`, `how to ${topic}`, topic],
+        aiPhrases: AI_PHRASES_EN,
+        technicalTerms: [
+            'domain name', 'domain names', 'custom domain', 'root domain', 'public domain', 'domain authority', 'domain rating',
+            'javascript framework', 'css framework', 'testing framework', 'legal framework', 'regulatory framework',
+            'plugin ecosystem', 'software ecosystem', 'implementation details',
+        ],
+        syllablePattern: null,
+        flesch: { base: 206.835, sentenceWeight: 1.015, syllableWeight: 84.6 },
+    },
+    de: {
+        name: 'German',
+        nativeName: 'Deutsch',
+        serperLocale: { hl: 'de', gl: 'de' },
+        headings: { keyTakeaways: 'Das Wichtigste in Kürze', faq: 'Häufig gestellte Fragen', references: 'Quellen' },
+        videoQueries: topic => [`"${topic}" Anleitung`, `${topic} erklärt`, topic],
+        aiPhrases: [
+            'in der heutigen digitalen welt', 'in der heutigen schnelllebigen welt', 'tauchen wir ein', 'eintauchen',
+            'revolutionieren', 'bahnbrechend', 'nahtlos', 'ganzheitlich', 'paradigmenwechsel',
+            'darüber hinaus', 'des weiteren', 'zudem', 'nichtsdestotrotz', 'zusammenfassend lässt sich sagen',
+            'abschließend lässt sich sagen', 'es ist wichtig zu beachten', 'es ist erwähnenswert', 'nicht zuletzt',
+            'im bereich', 'landschaft', 'reise', 'schlüssel zum erfolg', 'eine vielzahl von', 'unzählige',
+            'von entscheidender bedeutung', 'unerlässlich', 'optimieren', 'maximieren',
+            'umfassender leitfaden', 'ultimativer leitfaden',
+        ],
+        technicalTerms: [],
+        syllablePattern: /[aeiouyäöü]+/g,
+        flesch: { base: 180, sentenceWeight: 1, syllableWeight: 58.5 }, // Amstad
+    },
+    es: {
+        name: 'Spanish',
+        nativeName: 'Español',
+        serperLocale: { hl: 'es', gl: 'es' },
+        headings: { keyTakeaways: 'Puntos clave', faq: 'Preguntas frecuentes', references: 'Referencias' },
+        videoQueries: topic => [`"${topic}" tutorial`, `cómo ${topic}`, topic],
+        aiPhrases: [
+            'en el panorama digital actual', 'en el mundo actual', 'profundizar en', 'sumergirnos en',
+            'revolucionar', 'innovador', 'sin fisuras', 'holístico', 'cambio de paradigma',
+            'además', 'asimismo', 'por otro lado', 'no obstante', 'en conclusión', 'en resumen',
+            'cabe destacar', 'es importante señalar', 'vale la pena mencionar', 'en el ámbito de',
+            'panorama', 'viaje', 'la clave del éxito', 'una gran variedad de', 'un sinfín de',
+            'crucial', 'fundamental', 'imprescindible', 'optimizar', 'maximizar',
+            'guía completa', 'guía definitiva',
+        ],
+        technicalTerms: [],
+        syllablePattern: /[aeiouáéíóúü]+/g,
+        flesch: { base: 206.84, sentenceWeight: 1.02, syllableWeight: 60 }, // Fernández Huerta
+    },
+};
+
+// Stages whose output is published, and so is written in the article's language.
+const LOCALIZED_STAGES: string[] = ['cluster_planner', 'semantic_keyword_generator', 'content_meta_and_outline', 'write_article_section', 'write_faq_answer', 'humanize_sentences'];
+
+const formatLanguageInstructions = (language: ContentLanguage): string => `
+
+**OUTPUT LANGUAGE:** Write every piece of reader-facing text in ${CONTENT_LANGUAGES[language].name}, the way a native ${CONTENT_LANGUAGES[language].name} writer would, not as a translation. JSON keys, HTML tags and placeholders such as [INTERNAL_LINK ...] and [IMAGE_1_PLACEHOLDER] stay exactly as specified.`;
 
 // SEO Power Words
 const POWER_WORDS = ['Ultimate', 'Complete', 'Essential', 'Proven', 'Secret', 'Powerful', 'Effective', 'Simple', 'Fast', 'Easy', 'Best', 'Top', 'Expert', 'Advanced', 'Master', 'Definitive', 'Comprehensive', 'Strategic', 'Revolutionary', 'Game-Changing'];
@@ -421,14 +610,17 @@ const extractSlugFromUrl = (urlString: string): string => {
  * @param apiCall A function that returns the promise from the AI SDK call.
  * @param maxRetries The maximum number of times to retry the call.
  * @param initialDelay The baseline delay in milliseconds for the first retry.
+ * @param signal Aborts the in-flight call (when passed to the SDK) and any pending backoff sleep.
  * @returns The result of the successful API call.
  * @throws {Error} if the call fails after all retries or on a non-retriable error.
  */
-const callAiWithRetry = async (apiCall: () => Promise<any>, maxRetries = 5, initialDelay = 5000) => {
+const callAiWithRetry = async (apiCall: () => Promise<any>, maxRetries = 5, initialDelay = 5000, signal?: AbortSignal) => {
     for (let attempt = 0; attempt < maxRetries; attempt++) {
+        throwIfAborted(signal);
         try {
             return await apiCall();
         } catch (error: any) {
+            if (isAbortError(error, signal)) throw error; // Cancelled by the user, never retry.
             console.error(`AI call failed on attempt ${attempt + 1}. Error:`, error);
 
             const errorMessage = (error.message || '').toLowerCase();
@@ -487,24 +679,62 @@ const callAiWithRetry = async (apiCall: () => Promise<any>, maxRetries = 5, init
             }
 
             console.log(`Retrying in ${Math.round(delay)}ms...`);
-            await new Promise(resolve => setTimeout(resolve, delay));
+            await abortableSleep(delay, signal);
         }
     }
     throw new Error("AI call failed after all retries.");
 };
 
+/**
+ * Throws the signal's abort reason (an AbortError by default) if it has been aborted.
+ */
+const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw signal.reason ?? new DOMException('The operation was aborted.', 'AbortError');
+};
+
+/**
+ * True when an error came from cancelling a request rather than from the request failing.
+ * SDKs wrap aborts in their own error classes, so an aborted signal is treated as authoritative.
+ */
+const isAbortError = (error: any, signal?: AbortSignal): boolean =>
+    !!signal?.aborted || error?.name === 'AbortError' || error?.name === 'APIUserAbortError';
+
+/**
+ * Waits for `ms` milliseconds, rejecting early if the signal aborts.
+ */
+const abortableSleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason ?? new DOMException('The operation was aborted.', 'AbortError'));
+    const onAbort = () => {
+        clearTimeout(timeoutId);
+        reject(signal!.reason ?? new DOMException('The operation was aborted.', 'AbortError'));
+    };
+    const timeoutId = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
 /**
  * Fetches a URL by first attempting a direct connection, then falling back to a
  * series of public CORS proxies. This strategy makes the sitemap crawling feature
  * significantly more resilient to CORS issues and unreliable proxies.
  * @param url The target URL to fetch.
- * @param options The options for the fetch call (method, headers, body).
+ * @param options The options for the fetch call (method, headers, body). An `options.signal`
+ * cancels the whole attempt chain; per-request timeouts are still applied on top of it.
  * @returns The successful Response object.
  * @throws {Error} if the direct connection and all proxies fail.
  */
 const fetchWithProxies = async (url: string, options: RequestInit = {}): Promise<Response> => {
     let lastError: Error | null = null;
     const REQUEST_TIMEOUT = 20000; // 20 seconds
+    // Kept inline: this function is serialized into the sitemap Web Worker and can't reference module helpers.
+    const callerSignal = options.signal;
+    const linkCallerSignal = (controller: AbortController) => {
+        if (!callerSignal) return;
+        if (callerSignal.aborted) controller.abort();
+        else callerSignal.addEventListener('abort', () => controller.abort(), { once: true });
+    };
 
     // Standard headers to mimic a browser request, reducing the chance of being blocked.
     const browserHeaders = {
@@ -518,6 +748,7 @@ const fetchWithProxies = async (url: string, options: RequestInit = {}): Promise
     try {
         console.log("Attempting direct fetch (no proxy)...");
         const controller = new AbortController();
+        linkCallerSignal(controller);
         const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
         const directResponse = await fetch(url, {
             ...options,
@@ -533,6 +764,7 @@ const fetchWithProxies = async (url: string, options: RequestInit = {}): Promise
             return directResponse;
         }
     } catch (error: any) {
+        if (callerSignal?.aborted) throw error;
         // A TypeError here is the classic sign of a CORS error.
         if (error.name !== 'AbortError') { // Don't log timeout as a CORS error
             console.warn("Direct fetch failed (likely due to CORS). Proceeding with proxies.", error.name);
@@ -555,6 +787,7 @@ const fetchWithProxies = async (url: string, options: RequestInit = {}): Promise
     for (let i = 0; i < proxies.length; i++) {
         const proxyUrl = proxies[i];
         const controller = new AbortController();
+        linkCallerSignal(controller);
         const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
 
         try {
@@ -578,6 +811,7 @@ const fetchWithProxies = async (url: string, options: RequestInit = {}): Promise
             lastError = new Error(`Proxy request failed with status ${response.status} for ${shortProxyUrl}. Response: ${responseText.substring(0, 100)}`);
 
         } catch (error: any) {
+            if (callerSignal?.aborted) throw error;
             if (error.name === 'AbortError') {
                 const shortProxyUrl = new URL(proxyUrl).hostname;
                 console.error(`Fetch via proxy #${i + 1} (${shortProxyUrl}) timed out after ${REQUEST_TIMEOUT / 1000}s.`);
@@ -987,6 +1221,26 @@ export type GeneratedContent = {
         twitter: string;
         linkedIn: string;
     };
+    // Which provider, model and prompt template version wrote each part of the article.
+    provenance?: ProvenanceEntry[];
+    // Inputs that were cut to fit a model's prompt budget.
+    trimmedInputs?: { stage: string; note: string }[];
+    // Paragraphs that repeat earlier ones, found after assembly.
+    repeatedParagraphs?: RepeatedParagraph[];
+    language?: ContentLanguage; // Missing on articles from before languages existed, which are English
+    // Stock AI phrases found after assembly, with where they are.
+    humanWritingReport?: HumanWritingReport;
+    // The prompt template version each stage used, 'default' for the built-in templates. Summarized
+    // from the provenance, so stages resumed from a checkpoint and Review modal rewrites are included.
+    promptVersions?: Partial<Record<PromptKey, string>>;
+};
+
+type ProvenanceEntry = {
+    stage: string;
+    provider: AiProvider;
+    model: string;
+    promptKey?: PromptKey; // Missing on entries recorded before template versions existed
+    promptVersion?: string; // The template version's name, 'default' for the built-in template
 };
 
 /**
@@ -1121,6 +1375,514 @@ const normalizeGeneratedContent = (parsedJson: any, itemTitle: string): Generate
     return normalized as GeneratedContent;
 };
 
+/**
+ * Stitches the outline, section bodies and FAQ answers into the article HTML, with the videos and
+ * the second image placeholder at fixed positions between sections.
+ * @returns The HTML (with a references placeholder) and the FAQ pairs for the schema markup.
+ */
+const assembleArticleHtml = (
+    metaAndOutline: any,
+    sectionHtmls: string[],
+    faqAnswerHtmls: string[],
+    youtubeVideos: any[] | null,
+    language: ContentLanguage = 'en'
+): { html: string; faqData: { question: string, answer: string }[] } => {
+    const { headings } = CONTENT_LANGUAGES[language];
+    const faqData: { question: string, answer: string }[] = [];
+    const contentParts: string[] = [];
+    contentParts.push(metaAndOutline.introduction);
+    contentParts.push(`<h3>${headings.keyTakeaways}</h3><ul>${metaAndOutline.keyTakeaways.map((li: string) => `<li>${li}</li>`).join('')}</ul>`);
+
+    if (metaAndOutline.imageDetails?.[0]?.placeholder) contentParts.push(`<p>${metaAndOutline.imageDetails[0].placeholder}</p>`);
+
+    sectionHtmls.forEach((sectionHtml, i) => {
+        contentParts.push(`<h2>${metaAndOutline.outline[i]}</h2>\n${sectionHtml}`);
+
+        if (i === 2 && youtubeVideos?.[0]) {
+            const vid = youtubeVideos[0];
+            contentParts.push(`<div class="video-container"><iframe width="100%" height="410" src="${vid.embedUrl}" frameborder="0" allowfullscreen title="${vid.title}"></iframe></div>`);
+        }
+        if (i === 6 && youtubeVideos?.[1]) {
+            const vid = youtubeVideos[1];
+            contentParts.push(`<div class="video-container"><iframe width="100%" height="410" src="${vid.embedUrl}" frameborder="0" allowfullscreen title="${vid.title}"></iframe></div>`);
+        }
+        if (i === 4 && metaAndOutline.imageDetails?.[1]?.placeholder) {
+            contentParts.push(`<p>${metaAndOutline.imageDetails[1].placeholder}</p>`);
+        }
+    });
+
+    contentParts.push(`<h2>${headings.faq}</h2>`);
+    faqAnswerHtmls.forEach((answerHtml, i) => {
+        const { question } = metaAndOutline.faqSection[i];
+        const tempDiv = document.createElement('div');
+        tempDiv.innerHTML = answerHtml;
+        const answerText = tempDiv.textContent?.trim() || '';
+        if (question && answerText) {
+            faqData.push({ question, answer: answerText });
+        }
+
+        contentParts.push(`<h3>${question}</h3>\n${answerHtml}`);
+    });
+
+    contentParts.push(metaAndOutline.conclusion);
+    contentParts.push('[REFERENCES_PLACEHOLDER]');
+
+    return { html: contentParts.join('\n\n'), faqData };
+};
+
+// --- START: Original Article Digest ---
+
+type OriginalArticleDigest = {
+    headings: string[];
+    facts: string[];
+    figures: string[];
+    uniqueAngles: string[];
+};
+
+// ~1,500 tokens per chunk keeps every map call small enough for any model.
+const DIGEST_CHUNK_CHARS = 6000;
+
+/**
+ * Splits text into chunks of at most `maxChars`, breaking at sentence ends where possible
+ * so a fact or figure is never cut in half.
+ */
+const chunkText = (text: string, maxChars: number): string[] => {
+    const chunks: string[] = [];
+    let remaining = text.trim();
+    while (remaining.length > maxChars) {
+        const window = remaining.substring(0, maxChars);
+        const sentenceEnd = Math.max(window.lastIndexOf('. '), window.lastIndexOf('? '), window.lastIndexOf('! '));
+        const cut = sentenceEnd > maxChars / 2 ? sentenceEnd + 1 : maxChars;
+        chunks.push(remaining.substring(0, cut).trim());
+        remaining = remaining.substring(cut).trim();
+    }
+    if (remaining) chunks.push(remaining);
+    return chunks;
+};
+
+/**
+ * The reduce step: merges the per-chunk digests in article order, dropping exact repeats.
+ */
+const mergeDigests = (digests: OriginalArticleDigest[]): OriginalArticleDigest => {
+    const merge = (key: keyof OriginalArticleDigest) => {
+        const seen = new Set<string>();
+        return digests.flatMap(digest => digest[key] || []).filter(entry => {
+            const normalized = entry.trim().toLowerCase();
+            if (!normalized || seen.has(normalized)) return false;
+            seen.add(normalized);
+            return true;
+        });
+    };
+    return { headings: merge('headings'), facts: merge('facts'), figures: merge('figures'), uniqueAngles: merge('uniqueAngles') };
+};
+
+const formatDigestForPrompt = (digest: OriginalArticleDigest): string => {
+    const list = (items: string[]) => items.map(entry => `- ${entry}`).join('\n');
+    return `<original_article_digest>
+${digest.headings.length ? `<covered_topics>\n${list(digest.headings)}\n</covered_topics>` : ''}
+${digest.facts.length ? `<facts>\n${list(digest.facts)}\n</facts>` : ''}
+${digest.figures.length ? `<figures>\n${list(digest.figures)}\n</figures>` : ''}
+${digest.uniqueAngles.length ? `<unique_angles>\n${list(digest.uniqueAngles)}\n</unique_angles>` : ''}
+</original_article_digest>`;
+};
+
+// --- END: Original Article Digest ---
+
+
+// --- START: Section Rewrite ---
+
+type ArticleSection = {
+    heading: string; // Plain text
+    html: string; // From its <h2> up to the next one
+    rewritable: boolean;
+};
+
+// H2 sections the pipeline builds itself rather than through `write_article_section`.
+const NON_SECTION_HEADINGS = Object.values(CONTENT_LANGUAGES).flatMap(({ headings }) => [headings.faq, headings.references]);
+
+// Blocks the pipeline places after a section's text. They are kept when the section is rewritten.
+const SECTION_EMBED_REGEX = /<div class="video-container">[\s\S]*?<\/div>|<figure\b[\s\S]*?<\/figure>|<p>\[IMAGE_\d+_PLACEHOLDER\]<\/p>/g;
+
+const H2_REGEX = /<h2\b[^>]*>[\s\S]*?<\/h2>/i;
+
+/**
+ * Splits article HTML into its H2 sections. Content before the first H2 (introduction, key
+ * takeaways) isn't part of any section.
+ */
+const splitArticleSections = (html: string): ArticleSection[] => {
+    const starts = [...html.matchAll(/<h2\b/gi)].map(match => match.index!);
+    return starts.map((start, i) => {
+        const sectionHtml = html.slice(start, starts[i + 1] ?? html.length);
+        const heading = (sectionHtml.match(H2_REGEX)?.[0] || '').replace(/<[^>]+>/g, '').trim();
+        return { heading, html: sectionHtml, rewritable: !NON_SECTION_HEADINGS.includes(heading) };
+    });
+};
+
+/** The section's own text, without its heading and the embeds placed after it. */
+const getSectionBody = (section: ArticleSection): string =>
+    section.html.replace(H2_REGEX, '').replace(SECTION_EMBED_REGEX, '').trim();
+
+/** Rebuilds a section around a new body, keeping its heading and embeds. */
+const rebuildSection = (section: ArticleSection, newBodyHtml: string): string => {
+    const heading = section.html.match(H2_REGEX)?.[0] || `<h2>${section.heading}</h2>`;
+    return [heading, newBodyHtml, ...(section.html.match(SECTION_EMBED_REGEX) || [])].join('\n') + '\n\n';
+};
+
+/** Replaces the section at `index` (as numbered by `splitArticleSections`) with new HTML. */
+const replaceArticleSection = (html: string, index: number, sectionHtml: string): string => {
+    const starts = [...html.matchAll(/<h2\b/gi)].map(match => match.index!);
+    if (index < 0 || index >= starts.length) return html;
+    return html.slice(0, starts[index]) + sectionHtml + html.slice(starts[index + 1] ?? html.length);
+};
+
+type DiffPart = { type: 'same' | 'added' | 'removed'; text: string };
+
+/** Splits HTML before each block-level tag so the diff compares paragraphs, lists and tables. */
+const splitHtmlBlocks = (html: string): string[] =>
+    html.split(/(?=<(?:p|h[1-6]|ul|ol|table|blockquote|div|figure)\b)/i).map(block => block.trim()).filter(Boolean);
+
+/**
+ * Longest-common-subsequence diff of two block lists. Sections have a few dozen blocks at most,
+ * so the quadratic table is cheap.
+ */
+const diffBlocks = (before: string[], after: string[]): DiffPart[] => {
+    const lcs = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0));
+    for (let i = before.length - 1; i >= 0; i--) {
+        for (let j = after.length - 1; j >= 0; j--) {
+            lcs[i][j] = before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+    const parts: DiffPart[] = [];
+    let i = 0, j = 0;
+    while (i < before.length && j < after.length) {
+        if (before[i] === after[j]) {
+            parts.push({ type: 'same', text: before[i] });
+            i++; j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            parts.push({ type: 'removed', text: before[i++] });
+        } else {
+            parts.push({ type: 'added', text: after[j++] });
+        }
+    }
+    before.slice(i).forEach(text => parts.push({ type: 'removed', text }));
+    after.slice(j).forEach(text => parts.push({ type: 'added', text }));
+    return parts;
+};
+
+// --- END: Section Rewrite ---
+
+
+// --- START: Section Coherence ---
+
+const stripTags = (html: string): string => html.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * A short summary of what each written section covers: its opening sentence, its subheadings
+ * and the terms it puts in bold. Sent with each section prompt so the model doesn't repeat them.
+ * @returns One line per section, or null when none are written yet.
+ */
+const describeSectionCoverage = (sections: { heading: string; html: string }[]): string | null => {
+    const lines = sections.map(({ heading, html }) => {
+        const firstParagraph = stripTags(html.match(/<p\b[^>]*>([\s\S]*?)<\/p>/i)?.[1] || '');
+        const opening = firstParagraph.match(/^[^.!?]+[.!?]?/)?.[0].substring(0, 200) || '';
+        const subheadings = [...html.matchAll(/<h3\b[^>]*>([\s\S]*?)<\/h3>/gi)].map(match => stripTags(match[1]));
+        const terms = [...new Set([...html.matchAll(/<strong>([\s\S]*?)<\/strong>/gi)].map(match => stripTags(match[1])))].slice(0, 6);
+        return [
+            `- "${heading}": ${opening}`,
+            subheadings.length > 0 ? ` Subtopics: ${subheadings.join('; ')}.` : '',
+            terms.length > 0 ? ` Key terms: ${terms.join(', ')}.` : '',
+        ].join('');
+    });
+    return lines.length > 0 ? lines.join('\n') : null;
+};
+
+/** A paragraph that substantially repeats an earlier one. Indexes count the article's `<p>` elements. */
+type RepeatedParagraph = {
+    index: number;
+    section: string;
+    text: string;
+    repeatsIndex: number;
+    repeatsSection: string;
+    similarity: number; // Share of this paragraph's word triples that also appear in the earlier one
+};
+
+const REPEATED_PARAGRAPH_THRESHOLD = 0.5;
+const MIN_WORDS_FOR_REPEAT_CHECK = 12;
+
+const wordTriples = (text: string): Set<string> => {
+    const words = text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(Boolean);
+    const triples = new Set<string>();
+    for (let i = 0; i + 2 < words.length; i++) triples.add(`${words[i]} ${words[i + 1]} ${words[i + 2]}`);
+    return triples;
+};
+
+/**
+ * Flags paragraphs whose wording largely repeats an earlier paragraph of the article. Short
+ * paragraphs are skipped; they share stock phrases too easily.
+ */
+const findRepeatedParagraphs = (html: string): RepeatedParagraph[] => {
+    const headings = [...html.matchAll(/<h2\b[^>]*>([\s\S]*?)<\/h2>/gi)].map(match => ({ position: match.index!, text: stripTags(match[1]) }));
+    const sectionAt = (position: number) => headings.filter(heading => heading.position < position).pop()?.text || 'Introduction';
+    const paragraphs = [...html.matchAll(/<p\b[^>]*>([\s\S]*?)<\/p>/gi)].map((match, index) => {
+        const text = stripTags(match[1]);
+        return { index, text, section: sectionAt(match.index!), triples: text.split(' ').length >= MIN_WORDS_FOR_REPEAT_CHECK ? wordTriples(text) : null };
+    });
+
+    const repeats: RepeatedParagraph[] = [];
+    paragraphs.forEach((paragraph, i) => {
+        if (!paragraph.triples || paragraph.triples.size === 0) return;
+        let best: { earlier: typeof paragraph; similarity: number } | null = null;
+        for (const earlier of paragraphs.slice(0, i)) {
+            if (!earlier.triples) continue;
+            let shared = 0;
+            paragraph.triples.forEach(triple => { if (earlier.triples!.has(triple)) shared++; });
+            const similarity = shared / paragraph.triples.size;
+            if (similarity >= REPEATED_PARAGRAPH_THRESHOLD && (!best || similarity > best.similarity)) best = { earlier, similarity };
+        }
+        if (best) {
+            repeats.push({ index: paragraph.index, section: paragraph.section, text: paragraph.text, repeatsIndex: best.earlier.index, repeatsSection: best.earlier.section, similarity: best.similarity });
+        }
+    });
+    return repeats;
+};
+
+// --- END: Section Coherence ---
+
+// --- START: Human Writing Report ---
+
+/** Where a flagged phrase was found. Blocks count the article's paragraphs, list items, table cells and subheadings. */
+type AiPhraseLocation = {
+    section: string;
+    blockIndex: number;
+    sentenceIndex: number; // Within the block, as split by splitHtmlSentences
+    sentence: string; // As it appears in the HTML, tags included, so it can be replaced in place
+};
+
+/** A flagged sentence and where it is, so a rewrite replaces this copy and no other. */
+type FlaggedSentence = {
+    sentence: string;
+    phrases: string[];
+    blockIndex: number;
+    sentenceIndex: number;
+};
+
+type AiPhraseFinding = {
+    phrase: string;
+    count: number;
+    locations: AiPhraseLocation[];
+};
+
+type HumanWritingReport = {
+    score: number; // 100 minus 10 per flagged phrase and 15 for long sentences
+    findings: AiPhraseFinding[]; // Most frequent first
+    averageSentenceLength: number;
+};
+
+const AI_PHRASE_PENALTY = 10;
+const LONG_SENTENCE_PENALTY = 15;
+const MAX_AVERAGE_SENTENCE_LENGTH = 25;
+
+const TEXT_BLOCK_REGEX = /<(p|li|td|th|h[2-6])\b[^>]*>([\s\S]*?)<\/\1>/gi;
+
+const wholePhraseRegexCache = new Map<string, RegExp>();
+
+/**
+ * Matches a phrase as whole words only, so "unlock" doesn't match "unlocked". Letters outside
+ * ASCII count as word characters, and straight and curly apostrophes match each other. Each
+ * phrase is compiled once, since the Review modal scans every sentence on each edit; matchAll
+ * works on a copy, so sharing the regex is safe.
+ */
+const wholePhraseRegex = (phrase: string): RegExp => {
+    if (!wholePhraseRegexCache.has(phrase)) {
+        wholePhraseRegexCache.set(phrase, new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(phrase).replace(/['’]/g, "['’]")}(?![\\p{L}\\p{N}])`, 'giu'));
+    }
+    return wholePhraseRegexCache.get(phrase)!;
+};
+
+type PhraseMatch = { phrase: string; start: number; end: number };
+
+/**
+ * Finds the flagged phrases in plain text. Matches inside one of the language's technical terms
+ * are ignored, and where phrases overlap ("comprehensive guide" and "comprehensive") the longer
+ * one wins.
+ */
+const findPhraseMatches = (text: string, phrases: string[], language: ContentLanguage): PhraseMatch[] => {
+    const technicalRanges = CONTENT_LANGUAGES[language].technicalTerms.flatMap(term =>
+        [...text.matchAll(wholePhraseRegex(term))].map(match => ({ start: match.index!, end: match.index! + match[0].length }))
+    );
+    const candidates = phrases.flatMap(phrase =>
+        [...text.matchAll(wholePhraseRegex(phrase))].map(match => ({ phrase, start: match.index!, end: match.index! + match[0].length }))
+    ).filter(match => !technicalRanges.some(range => match.start < range.end && match.end > range.start));
+
+    candidates.sort((a, b) => a.start - b.start || b.end - a.end);
+    const matches: PhraseMatch[] = [];
+    candidates.forEach(match => {
+        if (matches.length === 0 || match.start >= matches[matches.length - 1].end) matches.push(match);
+    });
+    return matches;
+};
+
+/** The built-in phrases for the language plus the brand voice's banned terms, lowercased and deduplicated. */
+const getFlaggedPhrases = (bannedTerms: string[], language: ContentLanguage): string[] =>
+    [...new Set([...CONTENT_LANGUAGES[language].aiPhrases, ...bannedTerms].map(phrase => phrase.toLowerCase()))];
+
+const VOID_TAG_REGEX = /^<(br|img|hr|wbr|input)\b|\/>$/i;
+
+/**
+ * Splits a block's inner HTML into sentences. Full stops inside tags, such as in link URLs, don't
+ * end a sentence, and neither do ones inside inline markup such as a link's text, so every sentence
+ * opens and closes its own tags and can be rewritten on its own.
+ */
+const splitHtmlSentences = (html: string): string[] =>
+    getHtmlSentenceRanges(html).map(({ start, end }) => html.slice(start, end));
+
+/** Where each of splitHtmlSentences' sentences starts and ends in the block's inner HTML. */
+const getHtmlSentenceRanges = (html: string): { start: number; end: number }[] => {
+    const sentences: { start: number; end: number }[] = [];
+    const boundary = /<[^>]*>|[.!?]+(?=\s|$)/g;
+    let start = 0;
+    let openTags = 0;
+    let match: RegExpExecArray | null;
+    while ((match = boundary.exec(html))) {
+        if (match[0].startsWith('<')) {
+            if (match[0].startsWith('</')) openTags = Math.max(0, openTags - 1);
+            else if (!VOID_TAG_REGEX.test(match[0])) openTags++;
+            continue;
+        }
+        if (openTags > 0) continue;
+        sentences.push({ start, end: match.index + match[0].length });
+        start = match.index + match[0].length;
+    }
+    sentences.push({ start, end: html.length });
+    return sentences
+        .map(({ start, end }) => {
+            const text = html.slice(start, end);
+            const leading = text.length - text.trimStart().length;
+            return { start: start + leading, end: start + leading + text.trim().length };
+        })
+        .filter(({ start, end }) => stripTags(html.slice(start, end)));
+};
+
+/**
+ * Replaces sentences at the block and sentence positions they were flagged at. A sentence that no
+ * longer reads as it did, because the article was edited since, is left alone.
+ */
+const replaceFlaggedSentences = (html: string, rewrites: { blockIndex: number; sentenceIndex: number; before: string; after: string }[]): string => {
+    let blockIndex = -1;
+    return html.replace(TEXT_BLOCK_REGEX, (block, tag, inner) => {
+        const index = ++blockIndex;
+        const blockRewrites = rewrites.filter(rewrite => rewrite.blockIndex === index);
+        if (blockRewrites.length === 0) return block;
+        const ranges = getHtmlSentenceRanges(inner);
+        let rewritten = inner;
+        // Last sentence first, so the earlier ranges still point at the right text.
+        [...blockRewrites].sort((a, b) => b.sentenceIndex - a.sentenceIndex).forEach(({ sentenceIndex, before, after }) => {
+            const range = ranges[sentenceIndex];
+            if (!range || inner.slice(range.start, range.end) !== before) return;
+            rewritten = rewritten.slice(0, range.start) + after + rewritten.slice(range.end);
+        });
+        const closingTag = `</${tag}>`;
+        return block.slice(0, block.length - inner.length - closingTag.length) + rewritten + closingTag;
+    });
+};
+
+/**
+ * Scores how human an article reads and records every stock AI phrase it uses, with the section
+ * and sentence it is in. The brand voice's banned terms count the same as the built-in phrases.
+ */
+const buildHumanWritingReport = (html: string, bannedTerms: string[] = [], language: ContentLanguage = 'en'): HumanWritingReport => {
+    const phrases = getFlaggedPhrases(bannedTerms, language);
+    const headings = [...html.matchAll(/<h2\b[^>]*>([\s\S]*?)<\/h2>/gi)].map(match => ({ position: match.index!, text: stripTags(match[1]) }));
+    const sectionAt = (position: number) => headings.filter(heading => heading.position <= position).pop()?.text || 'Introduction';
+
+    const findings = new Map<string, AiPhraseFinding>();
+    [...html.matchAll(TEXT_BLOCK_REGEX)].forEach((block, blockIndex) => {
+        splitHtmlSentences(block[2]).forEach((sentence, sentenceIndex) => {
+            findPhraseMatches(stripTags(sentence), phrases, language).forEach(({ phrase }) => {
+                const finding = findings.get(phrase) || { phrase, count: 0, locations: [] };
+                finding.count++;
+                if (!finding.locations.some(location => location.blockIndex === blockIndex && location.sentenceIndex === sentenceIndex)) {
+                    finding.locations.push({ section: sectionAt(block.index!), blockIndex, sentenceIndex, sentence });
+                }
+                findings.set(phrase, finding);
+            });
+        });
+    });
+
+    const sentences: string[] = stripTags(html).match(/[^.!?]+[.!?]+/g) || [];
+    const averageSentenceLength = sentences.length > 0 ? sentences.reduce((sum, sentence) => sum + sentence.trim().split(/\s+/).length, 0) / sentences.length : 0;
+    const phraseCount = [...findings.values()].reduce((sum, finding) => sum + finding.count, 0);
+    const penalty = phraseCount * AI_PHRASE_PENALTY + (averageSentenceLength > MAX_AVERAGE_SENTENCE_LENGTH ? LONG_SENTENCE_PENALTY : 0);
+
+    return {
+        score: Math.max(0, 100 - penalty),
+        findings: [...findings.values()].sort((a, b) => b.count - a.count),
+        averageSentenceLength,
+    };
+};
+
+/**
+ * Wraps each flagged phrase of the article's text blocks in a `<mark>` for the preview. Only text
+ * between tags is touched, so attributes and URLs are never rewritten.
+ */
+const highlightAiPhrases = (html: string, bannedTerms: string[], language: ContentLanguage): string => {
+    const phrases = getFlaggedPhrases(bannedTerms, language);
+    return html.replace(TEXT_BLOCK_REGEX, (block, tag, inner) => {
+        const highlighted = inner.split(/(<[^>]*>)/).map((part: string) => {
+            if (part.startsWith('<')) return part;
+            let result = '';
+            let last = 0;
+            findPhraseMatches(part, phrases, language).forEach(({ phrase, start, end }) => {
+                result += part.slice(last, start) + `<mark class="ai-phrase" title="Stock phrase: ${phrase.replace(/"/g, '&quot;')}">${part.slice(start, end)}</mark>`;
+                last = end;
+            });
+            return result + part.slice(last);
+        }).join('');
+        const closingTag = `</${tag}>`;
+        return block.slice(0, block.length - inner.length - closingTag.length) + highlighted + closingTag;
+    });
+};
+
+/**
+ * The sentences a report flags, each with the phrases it uses, in article order. A sentence that
+ * appears twice is listed at both places.
+ * @returns The input for the `humanize_sentences` prompt.
+ */
+const collectFlaggedSentences = (report: HumanWritingReport): FlaggedSentence[] => {
+    const byLocation = new Map<string, FlaggedSentence>();
+    report.findings.forEach(({ phrase, locations }) => locations.forEach(({ sentence, blockIndex, sentenceIndex }) => {
+        const key = `${blockIndex}:${sentenceIndex}`;
+        const entry = byLocation.get(key) || { sentence, phrases: [], blockIndex, sentenceIndex };
+        if (!entry.phrases.includes(phrase)) entry.phrases.push(phrase);
+        byLocation.set(key, entry);
+    }));
+    return [...byLocation.values()].sort((a, b) => a.blockIndex - b.blockIndex || a.sentenceIndex - b.sentenceIndex);
+};
+
+const formatFlaggedSentences = (sentences: FlaggedSentence[]): string =>
+    sentences.map(({ sentence, phrases }, i) => `${i + 1}. ${sentence}\n   Flagged: ${phrases.map(phrase => `"${phrase}"`).join(', ')}`).join('\n');
+
+// --- END: Human Writing Report ---
+
+/**
+ * The section prompt's optional blocks. Prompt template overrides get the same text for their
+ * `{{coveredSoFar}}` and `{{revision}}` variables, so both say the same thing.
+ */
+const formatCoveredSoFarBlock = (coveredSoFar: string | null): string => coveredSoFar ? `
+**Already Covered Elsewhere in the Article (do not repeat):**
+${coveredSoFar}
+` : '';
+
+const formatRevisionBlock = (revision: { instruction: string; currentHtml: string } | null): string => revision ? `
+**Current Version of This Section:**
+<current_section>
+${revision.currentHtml}
+</current_section>
+
+**Revision Instruction:** ${revision.instruction}
+Rewrite the section so it follows this instruction. Keep whatever the instruction doesn't ask you to change. All other rules still apply.
+` : '';
+
 const PROMPT_TEMPLATES = {
     cluster_planner: {
         systemInstruction: `You are a master SEO strategist specializing in building topical authority through pillar-and-cluster content models. Your task is to analyze a user's broad topic and generate a complete, SEO-optimized content plan that addresses user intent at every stage.
@@ -1152,64 +1914,67 @@ const PROMPT_TEMPLATES = {
 **RULES:**
 1.  **JSON OUTPUT ONLY:** Your ENTIRE response MUST be a single, valid JSON object. No text before or after.
 2.  **DO NOT WRITE THE ARTICLE BODY:** Your role is to plan, not write the main content. The 'outline' should be a list of H2 headings ONLY. The 'introduction' and 'conclusion' sections should be fully written paragraphs.
-3.  **WRITING STYLE (For Intro/Conclusion):** Follow the "ANTI-AI" protocol: Short, direct sentences (avg. 10 words). Tiny paragraphs (2-3 sentences max). Active voice. No forbidden phrases (e.g., 'delve into', 'in today's digital landscape').
+3.  **WRITING STYLE (For Intro/Conclusion):** Write them in this voice:
+{{VOICE_INSTRUCTIONS}}
 4.  **STRUCTURAL REQUIREMENTS:**
-    - **keyTakeaways**: Exactly 8 high-impact bullet points (as an array of strings).
-    - **outline**: 10-15 H2 headings (as an array of strings). Use the provided semantic keywords.
-    - **faqSection**: Exactly 8 questions (as an array of objects: \`[{ "question": "..." }]\`).
+    - **keyTakeaways**: Exactly {{KEY_TAKEAWAYS}} high-impact bullet points (as an array of strings).
+    - **outline**: {{MIN_HEADINGS}}-{{MAX_HEADINGS}} H2 headings (as an array of strings). Use the provided semantic keywords.
+    - **faqSection**: Exactly {{FAQ_COUNT}} questions (as an array of objects: \`[{ "question": "..." }]\`).
     - **imageDetails**: Exactly 2 image prompts. Placeholders MUST be '[IMAGE_1_PLACEHOLDER]' and '[IMAGE_2_PLACEHOLDER]'.
 5.  **JSON STRUCTURE:** Adhere strictly to the provided JSON schema. Ensure all fields are present.
 `,
-        userPrompt: (primaryKeyword: string, semanticKeywords: string[] | null, serpData: any[] | null, existingPages: any[] | null, originalContent: string | null = null) => {
-            const MAX_CONTENT_CHARS = 8000;
-            const MAX_LINKING_PAGES = 50;
+        // Input sizes are decided by the prompt budget for the serving model (see fitPromptToBudget).
+        userPrompt: (primaryKeyword: string, semanticKeywords: string[] | null, serpData: any[] | null, existingPages: any[] | null, originalContent: string | null = null, originalDigest: OriginalArticleDigest | null = null) => {
             const MAX_SERP_SNIPPET_LENGTH = 200;
 
             let contentForPrompt = originalContent 
                 ? `***CRITICAL REWRITE MANDATE:*** You are to deconstruct the following outdated article and rebuild its plan.
 <original_content_to_rewrite>
-${originalContent.substring(0, MAX_CONTENT_CHARS)}
+${originalContent}
 </original_content_to_rewrite>`
                 : '';
 
             return `
 **PRIMARY KEYWORD:** "${primaryKeyword}"
 ${contentForPrompt}
+${originalDigest ? `**ORIGINAL ARTICLE DIGEST:** A complete, section-by-section digest of the article being rewritten. The new plan MUST cover every topic below, keep the facts and figures, and build on the unique angles. Improve what's weak; don't lose what worked.
+${formatDigestForPrompt(originalDigest)}` : ''}
 ${semanticKeywords ? `**MANDATORY SEMANTIC KEYWORDS:** You MUST integrate these into the outline headings: <semantic_keywords>${JSON.stringify(semanticKeywords)}</semantic_keywords>` : ''}
 ${serpData ? `**SERP COMPETITOR DATA:** Analyze for gaps. <serp_data>${JSON.stringify(serpData.map(d => ({title: d.title, link: d.link, snippet: d.snippet?.substring(0, MAX_SERP_SNIPPET_LENGTH)})))}</serp_data>` : ''}
-${existingPages && existingPages.length > 0 ? `**INTERNAL LINKING TARGETS (for context):** <existing_articles_for_linking>${JSON.stringify(existingPages.slice(0, MAX_LINKING_PAGES).map(p => ({slug: p.slug, title: p.title})).filter(p => p.slug && p.title))}</existing_articles_for_linking>` : ''}
+${existingPages && existingPages.length > 0 ? `**INTERNAL LINKING TARGETS (for context):** <existing_articles_for_linking>${JSON.stringify(existingPages.map(p => ({slug: p.slug, title: p.title})).filter(p => p.slug && p.title))}</existing_articles_for_linking>` : ''}
 
 Generate the complete JSON plan.
 `;
         }
     },
     write_article_section: {
-        systemInstruction: `You are an ELITE content writer, writing in the style of a world-class thought leader like Alex Hormozi. Your SOLE task is to write the content for a single section of a larger article, based on the provided heading.
+        systemInstruction: `You are an ELITE content writer, writing in the site's brand voice. Your SOLE task is to write the content for a single section of a larger article, based on the provided heading.
 
 **RULES:**
 1.  **RAW HTML OUTPUT:** Your response must be ONLY the raw HTML content for the section. NO JSON, NO MARKDOWN, NO EXPLANATIONS. Start directly with a \`<p>\` tag. Do not include the \`<h2>\` tag for the main heading; it will be added automatically.
-2.  **WORD COUNT:** The section MUST be between 250 and 300 words. This is mandatory.
-3.  **ELITE WRITING STYLE (THE "ANTI-AI" PROTOCOL):**
-    - Short, direct sentences. Average 10 words. Max 15.
-    - Tiny paragraphs. 2-3 sentences. MAXIMUM.
-    - Use contractions: "it's," "you'll," "can't."
-    - Active voice. Simple language. No filler words.
-    - Ask the reader direct questions. Use analogies.
-4.  **FORBIDDEN PHRASES (ZERO TOLERANCE):**
-    - ❌ 'delve into', 'in today's digital landscape', 'revolutionize', 'game-changer', 'unlock', 'leverage', 'in conclusion', 'to summarize', 'utilize', 'furthermore', 'moreover', 'landscape', 'realm', 'dive deep', etc.
-5.  **STRUCTURE:**
+2.  **WORD COUNT:** The section MUST be between {{SECTION_MIN_WORDS}} and {{SECTION_MAX_WORDS}} words. This is mandatory.
+3.  {{VOICE_INSTRUCTIONS}}
+4.  **STRUCTURE:**
     - You MAY use \`<h3>\` tags for sub-headings.
-    - You MUST include at least one HTML table (\`<table>\`), list (\`<ul>\`/\`<ol>\`), or blockquote (\`<blockquote>\`) if relevant to the topic.
+    - You MUST include at least one HTML table (\`<table>\`), list (\`<ul>\`/\`<ol>\`), or blockquote (\`<blockquote>\`) if relevant to the topic. {{TABLE_INSTRUCTIONS}}
     - You MUST naturally integrate 1-2 internal link placeholders where contextually appropriate: \`[INTERNAL_LINK slug="example-slug" text="anchor text"]\`.
+5.  **NO REPETITION:** Stay within your heading. Other sections of the outline cover their own topics. Never re-define a term or repeat a point that is listed as already covered; build on it instead.
 `,
-        userPrompt: (primaryKeyword: string, articleTitle: string, sectionHeading: string, existingPages: any[] | null) => `
+        // Everything that is the same for every section of an article, sent as a cacheable prefix.
+        sharedContext: (primaryKeyword: string, articleTitle: string, sectionHeading: string, existingPages: any[] | null, originalDigest: OriginalArticleDigest | null = null, articleOutline: string[] | null = null) => `
 **Primary Keyword:** "${primaryKeyword}"
 **Main Article Title:** "${articleTitle}"
-**Section to Write:** "${sectionHeading}"
-
+${articleOutline && articleOutline.length > 0 ? `**Full Article Outline:**
+${articleOutline.map((heading, i) => `${i + 1}. ${heading}`).join('\n')}
+` : ''}${originalDigest ? `
+**From the Original Article:** This is a rewrite. Reuse the facts, figures and angles below that belong in this section, verbatim where they are numbers. Ignore the ones that don't fit this heading.
+${formatDigestForPrompt(originalDigest)}
+` : ''}
 ${existingPages && existingPages.length > 0 ? `**Available Internal Links:** You can link to these pages.
-<pages>${JSON.stringify(existingPages.slice(0, 50).map(p => ({slug: p.slug, title: p.title})))}</pages>` : ''}
-
+<pages>${JSON.stringify(existingPages.map(p => ({slug: p.slug, title: p.title})))}</pages>` : ''}
+`,
+        userPrompt: (primaryKeyword: string, articleTitle: string, sectionHeading: string, existingPages: any[] | null = null, originalDigest: OriginalArticleDigest | null = null, articleOutline: string[] | null = null, coveredSoFar: string | null = null, revision: { instruction: string; currentHtml: string } | null = null) => `**Section to Write:** "${sectionHeading}"
+${formatCoveredSoFarBlock(coveredSoFar)}${formatRevisionBlock(revision)}
 Write the HTML content for this section now.
 `
     },
@@ -1218,10 +1983,58 @@ Write the HTML content for this section now.
 
 **RULES:**
 1.  **RAW HTML PARAGRAPH:** Respond with ONLY the answer wrapped in a single \`<p>\` tag. Do not repeat the question.
-2.  **STYLE:** The answer should be direct, easy to understand, and typically 2-4 sentences long, following the "ANTI-AI" writing style (simple words, active voice).
+2.  **LENGTH:** The answer should be direct, easy to understand, and typically 2-4 sentences long.
+3.  {{VOICE_INSTRUCTIONS}}
 `,
         userPrompt: (question: string) => `Question: "${question}"`
     },
+    humanize_sentences: {
+        systemInstruction: `You are a sharp line editor. You receive numbered sentences from a finished article, each with the stock phrases that make it read as machine-written. Your task is to rewrite each sentence so it says the same thing in plain, specific language.
+
+**RULES:**
+1.  **Output Format:** Your entire response MUST be a single, valid JSON object. Do not include any text before or after the JSON.
+2.  **One for One:** Return exactly one rewritten sentence per input sentence, in the same order. Never merge, split, drop or add sentences.
+3.  **Drop the Flagged Phrases:** A rewrite must not contain its flagged phrases or a close synonym of them.
+4.  **Keep Meaning and Markup:** Keep every fact, number and name. Keep HTML tags such as \`<strong>\` and \`<a href="...">\` exactly as they are, around the same words.
+5.  {{VOICE_INSTRUCTIONS}}
+6.  **JSON Structure:**
+    {
+      "sentences": ["The first sentence, rewritten.", "..."]
+    }
+
+**FINAL INSTRUCTION:** Your ENTIRE response MUST be ONLY the JSON object, starting with { and ending with }. Do not add any introductory text, closing remarks, or markdown code fences. Your output will be parsed directly by a machine.`,
+        userPrompt: (flaggedSentences: string) => `**Sentences to Rewrite:**
+${flaggedSentences}
+
+Rewrite each sentence now.`
+    },
+    original_article_digest: {
+        systemInstruction: `You are a meticulous research editor preparing an outdated article for a rewrite. You receive ONE chunk of the original article at a time. Your task is to extract everything from this chunk that the rewrite must keep.
+
+**RULES:**
+1.  **Output Format:** Your entire response MUST be a single, valid JSON object. Do not include any text before or after the JSON.
+2.  **headings:** The section headings or topics this chunk covers, in order.
+3.  **facts:** Concrete, specific claims, definitions, steps and examples. One self-contained sentence each. Skip generic filler.
+4.  **figures:** Every number, price, statistic, date, measurement or named source, with enough context to reuse it (e.g. "Average install cost: $4,000-$6,000 (2023)").
+5.  **uniqueAngles:** Opinions, first-hand experience, original frameworks or anything else that makes this article different from competitors.
+6.  Use empty arrays when a category has nothing worth keeping. Never invent information that isn't in the chunk.
+7.  **JSON Structure:**
+    {
+      "headings": ["..."],
+      "facts": ["..."],
+      "figures": ["..."],
+      "uniqueAngles": ["..."]
+    }
+
+**FINAL INSTRUCTION:** Your ENTIRE response MUST be ONLY the JSON object, starting with { and ending with }. Do not add any introductory text, closing remarks, or markdown code fences. Your output will be parsed directly by a machine.`,
+        userPrompt: (primaryKeyword: string, chunk: string, chunkNumber: number, chunkCount: number) => `**ARTICLE TOPIC:** "${primaryKeyword}"
+**CHUNK ${chunkNumber} OF ${chunkCount}:**
+<original_article_chunk>
+${chunk}
+</original_article_chunk>
+
+Extract the digest for this chunk.`
+    },
     semantic_keyword_generator: {
         systemInstruction: `You are a world-class SEO analyst. Your task is to generate a comprehensive list of semantic and LSI (Latent Semantic Indexing) keywords related to a primary topic. These keywords should cover sub-topics, user intent variations, and related entities.
 
@@ -1267,15 +2080,1763 @@ Write the HTML content for this section now.
     }
 };
 
-type ContentItem = {
+type PromptKey = keyof typeof PROMPT_TEMPLATES;
+
+// --- START: Structured Output Schemas ---
+
+/**
+ * Response schemas for every JSON stage, written once in Gemini's schema dialect and translated
+ * for the other providers. They are enforced natively where the provider supports it and always
+ * validated locally, so a stage never continues with a half-formed plan.
+ */
+const STAGE_SCHEMAS: Partial<Record<PromptKey, Schema>> = {
+    cluster_planner: {
+        type: Type.OBJECT,
+        properties: {
+            pillarTitle: { type: Type.STRING },
+            clusterTitles: { type: Type.ARRAY, items: { type: Type.STRING }, minItems: '5', maxItems: '7' },
+        },
+        required: ['pillarTitle', 'clusterTitles'],
+    },
+    semantic_keyword_generator: {
+        type: Type.OBJECT,
+        properties: {
+            semanticKeywords: { type: Type.ARRAY, items: { type: Type.STRING }, minItems: '15', maxItems: '25' },
+        },
+        required: ['semanticKeywords'],
+    },
+    content_meta_and_outline: {
+        type: Type.OBJECT,
+        properties: {
+            title: { type: Type.STRING },
+            slug: { type: Type.STRING },
+            metaDescription: { type: Type.STRING },
+            introduction: { type: Type.STRING },
+            keyTakeaways: { type: Type.ARRAY, items: { type: Type.STRING }, minItems: '8', maxItems: '8' },
+            outline: { type: Type.ARRAY, items: { type: Type.STRING }, minItems: '10', maxItems: '15' },
+            faqSection: {
+                type: Type.ARRAY,
+                items: { type: Type.OBJECT, properties: { question: { type: Type.STRING } }, required: ['question'] },
+                minItems: '8',
+                maxItems: '8',
+            },
+            imageDetails: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        prompt: { type: Type.STRING },
+                        altText: { type: Type.STRING },
+                        title: { type: Type.STRING },
+                        placeholder: { type: Type.STRING, enum: ['[IMAGE_1_PLACEHOLDER]', '[IMAGE_2_PLACEHOLDER]'] },
+                    },
+                    required: ['prompt', 'altText', 'title', 'placeholder'],
+                },
+                minItems: '2',
+                maxItems: '2',
+            },
+            conclusion: { type: Type.STRING },
+        },
+        required: ['title', 'slug', 'metaDescription', 'introduction', 'keyTakeaways', 'outline', 'faqSection', 'imageDetails', 'conclusion'],
+    },
+    original_article_digest: {
+        type: Type.OBJECT,
+        properties: {
+            headings: { type: Type.ARRAY, items: { type: Type.STRING } },
+            facts: { type: Type.ARRAY, items: { type: Type.STRING } },
+            figures: { type: Type.ARRAY, items: { type: Type.STRING } },
+            uniqueAngles: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+        required: ['headings', 'facts', 'figures', 'uniqueAngles'],
+    },
+    humanize_sentences: {
+        type: Type.OBJECT,
+        properties: {
+            sentences: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+        required: ['sentences'],
+    },
+    content_health_analyzer: {
+        type: Type.OBJECT,
+        properties: {
+            healthScore: { type: Type.INTEGER, minimum: 0, maximum: 100 },
+            updatePriority: { type: Type.STRING, enum: ['Critical', 'High', 'Medium', 'Healthy'] },
+            justification: { type: Type.STRING },
+        },
+        required: ['healthScore', 'updatePriority', 'justification'],
+    },
+};
+
+// How many times a stage is re-prompted with its validation errors before it fails.
+const MAX_SCHEMA_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Translates a Gemini schema into standard JSON Schema for OpenAI `json_schema` and Anthropic tool input.
+ * Objects are closed (`additionalProperties: false`), which OpenAI's strict mode requires.
+ */
+const toJsonSchema = (schema: Schema): Record<string, any> => {
+    const jsonSchema: Record<string, any> = {};
+    if (schema.type) jsonSchema.type = schema.type.toLowerCase();
+    if (schema.description) jsonSchema.description = schema.description;
+    if (schema.enum) jsonSchema.enum = schema.enum;
+    if (schema.minimum !== undefined) jsonSchema.minimum = schema.minimum;
+    if (schema.maximum !== undefined) jsonSchema.maximum = schema.maximum;
+    if (schema.minItems !== undefined) jsonSchema.minItems = Number(schema.minItems);
+    if (schema.maxItems !== undefined) jsonSchema.maxItems = Number(schema.maxItems);
+    if (schema.items) jsonSchema.items = toJsonSchema(schema.items);
+    if (schema.properties) {
+        jsonSchema.properties = Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)]));
+        jsonSchema.required = schema.required || [];
+        jsonSchema.additionalProperties = false;
+    }
+    return jsonSchema;
+};
+
+/**
+ * Checks a parsed value against a stage schema.
+ * @returns Human-readable errors with JSON paths, e.g. "$.outline: expected at least 10 items, got 7". Empty when valid.
+ */
+const validateAgainstSchema = (value: any, schema: Schema, path = '$'): string[] => {
+    const errors: string[] = [];
+    const actualType = Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+
+    switch (schema.type) {
+        case Type.OBJECT: {
+            if (actualType !== 'object') return [`${path}: expected an object, got ${actualType}`];
+            for (const key of schema.required || []) {
+                if (value[key] === undefined || value[key] === null) errors.push(`${path}.${key}: required property is missing`);
+            }
+            for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+                if (value[key] !== undefined && value[key] !== null) errors.push(...validateAgainstSchema(value[key], propertySchema, `${path}.${key}`));
+            }
+            break;
+        }
+        case Type.ARRAY: {
+            if (actualType !== 'array') return [`${path}: expected an array, got ${actualType}`];
+            if (schema.minItems !== undefined && value.length < Number(schema.minItems)) errors.push(`${path}: expected at least ${schema.minItems} items, got ${value.length}`);
+            if (schema.maxItems !== undefined && value.length > Number(schema.maxItems)) errors.push(`${path}: expected at most ${schema.maxItems} items, got ${value.length}`);
+            if (schema.items) value.forEach((element: any, index: number) => errors.push(...validateAgainstSchema(element, schema.items!, `${path}[${index}]`)));
+            break;
+        }
+        case Type.STRING:
+            if (actualType !== 'string') return [`${path}: expected a string, got ${actualType}`];
+            if (!value.trim()) errors.push(`${path}: must not be empty`);
+            if (schema.enum && !schema.enum.includes(value)) errors.push(`${path}: must be one of ${schema.enum.map(e => `"${e}"`).join(', ')}, got "${value}"`);
+            break;
+        case Type.INTEGER:
+        case Type.NUMBER:
+            if (actualType !== 'number') return [`${path}: expected a number, got ${actualType}`];
+            if (schema.type === Type.INTEGER && !Number.isInteger(value)) errors.push(`${path}: expected an integer, got ${value}`);
+            if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: must be >= ${schema.minimum}, got ${value}`);
+            if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: must be <= ${schema.maximum}, got ${value}`);
+            break;
+        case Type.BOOLEAN:
+            if (actualType !== 'boolean') errors.push(`${path}: expected a boolean, got ${actualType}`);
+            break;
+    }
+    return errors;
+};
+
+/**
+ * Thrown when a JSON stage still doesn't match its schema after every repair attempt.
+ * `billed` carries the usage of every attempt, which the provider charges for regardless.
+ */
+class SchemaValidationError extends Error {
+    public errors: string[];
+    public billed: AiTextResponse | null;
+    constructor(promptKey: PromptKey, errors: string[], billed: AiTextResponse | null = null) {
+        super(`The '${promptKey}' response did not match its schema after ${MAX_SCHEMA_REPAIR_ATTEMPTS} repair attempts: ${errors.slice(0, 3).join('; ')}${errors.length > 3 ? ` (+${errors.length - 3} more)` : ''}`);
+        this.name = 'SchemaValidationError';
+        this.errors = errors;
+        this.billed = billed;
+    }
+}
+
+/** Thrown when a provider answers with no text. `billed` carries the usage of the attempts so far. */
+class EmptyResponseError extends Error {
+    public billed: AiTextResponse | null;
+    constructor(promptKey: PromptKey, billed: AiTextResponse | null = null) {
+        super(`AI returned an empty response for the '${promptKey}' stage.`);
+        this.name = 'EmptyResponseError';
+        this.billed = billed;
+    }
+}
+
+/** A stage's schema, with the outline's item counts taken from the content profile. */
+const getStageSchema = (promptKey: PromptKey, profile: ContentProfile = DEFAULT_CONTENT_PROFILE): Schema | undefined => {
+    const schema = STAGE_SCHEMAS[promptKey];
+    if (promptKey !== 'content_meta_and_outline' || !schema) return schema;
+    const withCount = (property: Schema, min: number, max = min): Schema => ({ ...property, minItems: String(min), maxItems: String(max) });
+    return {
+        ...schema,
+        properties: {
+            ...schema.properties,
+            keyTakeaways: withCount(schema.properties.keyTakeaways, profile.keyTakeaways),
+            outline: withCount(schema.properties.outline, profile.minHeadings, profile.maxHeadings),
+            faqSection: withCount(schema.properties.faqSection, profile.faqCount),
+        },
+    };
+};
+
+// --- END: Structured Output Schemas ---
+
+const PROMPT_STAGES: { key: PromptKey; label: string }[] = [
+    { key: 'cluster_planner', label: 'Cluster Planner' },
+    { key: 'semantic_keyword_generator', label: 'Semantic Keywords' },
+    { key: 'original_article_digest', label: 'Original Article Digest' },
+    { key: 'content_meta_and_outline', label: 'Metadata & Outline' },
+    { key: 'write_article_section', label: 'Article Sections' },
+    { key: 'write_faq_answer', label: 'FAQ Answers' },
+    { key: 'humanize_sentences', label: 'Humanizing Rewrite' },
+    { key: 'content_health_analyzer', label: 'Content Health Analysis' },
+];
+
+
+// --- START: Rate Limiting ---
+
+type RateLimit = {
+    rpm: number; // Requests per minute, 0 = unlimited
+    tpm: number; // Tokens per minute, 0 = unlimited
+};
+
+type RateLimiterStats = {
+    queueDepth: number;
+    waitMs: number; // How long the oldest queued request has been waiting
+};
+
+// Conservative entry-tier limits. Users on higher tiers can raise them in the settings.
+const DEFAULT_RATE_LIMITS: Record<string, RateLimit> = {
+    gemini: { rpm: 60, tpm: 0 },
+    openai: { rpm: 60, tpm: 0 },
+    anthropic: { rpm: 50, tpm: 0 },
+    openrouter: { rpm: 20, tpm: 0 },
+    groq: { rpm: 30, tpm: 6000 },
+    local: { rpm: 0, tpm: 0 },
+    serper: { rpm: 100, tpm: 0 },
+};
+
+// Rough size of a response we haven't seen yet, reserved up front and corrected once usage is known.
+const ESTIMATED_COMPLETION_TOKENS = 1024;
+
+// Token counts here are estimates from character counts, not from any provider's tokenizer: prompt
+// budgets, batch cost estimates and rate limits all use them. Deliberately conservative, since each
+// provider tokenizes differently: ~3 ASCII characters per token, one token per other character
+// (accents, umlauts, scripts), plus a safety margin. Counting high only trims a little early;
+// counting low overflows the context window.
+const CHARS_PER_TOKEN = 3;
+const TOKEN_ESTIMATE_MARGIN = 1.1;
+
+const estimateTokens = (text: string): number => {
+    let nonAscii = 0;
+    for (let i = 0; i < text.length; i++) {
+        if (text.charCodeAt(i) > 127) nonAscii++;
+    }
+    return Math.ceil(((text.length - nonAscii) / CHARS_PER_TOKEN + nonAscii) * TOKEN_ESTIMATE_MARGIN);
+};
+
+/**
+ * Two token buckets (requests and tokens) that refill continuously over a minute. Requests are
+ * served strictly in arrival order, so a large request can't be starved by a stream of small ones.
+ */
+class TokenBucketRateLimiter {
+    private limit: RateLimit;
+    private requestBucket: number;
+    private tokenBucket: number;
+    private lastRefill = Date.now();
+    private queue: { tokens: number; enqueuedAt: number; resolve: () => void; reject: (reason: any) => void; signal?: AbortSignal }[] = [];
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private onChange: () => void;
+
+    constructor(limit: RateLimit, onChange: () => void) {
+        this.limit = limit;
+        this.requestBucket = limit.rpm;
+        this.tokenBucket = limit.tpm;
+        this.onChange = onChange;
+    }
+
+    setLimit(limit: RateLimit) {
+        this.refill();
+        this.limit = limit;
+        this.requestBucket = Math.min(this.requestBucket, limit.rpm);
+        this.tokenBucket = Math.min(this.tokenBucket, limit.tpm);
+        this.drain();
+    }
+
+    /**
+     * Waits for capacity, runs the call, then corrects the token bucket with the real usage if known.
+     */
+    async run<T>(estimatedTokens: number, apiCall: () => Promise<T>, signal?: AbortSignal, actualTokens?: (result: T) => number | null): Promise<T> {
+        const reserved = this.limit.tpm > 0 ? Math.min(estimatedTokens, this.limit.tpm) : 0;
+        await this.acquire(reserved, signal);
+        const result = await apiCall();
+        const used = actualTokens?.(result);
+        if (this.limit.tpm > 0 && used != null) this.tokenBucket -= used - reserved;
+        return result;
+    }
+
+    getStats(): RateLimiterStats {
+        return { queueDepth: this.queue.length, waitMs: this.queue[0] ? Date.now() - this.queue[0].enqueuedAt : 0 };
+    }
+
+    private acquire(tokens: number, signal?: AbortSignal): Promise<void> {
+        throwIfAborted(signal);
+        return new Promise((resolve, reject) => {
+            const entry = { tokens, enqueuedAt: Date.now(), resolve, reject, signal };
+            this.queue.push(entry);
+            signal?.addEventListener('abort', () => {
+                const index = this.queue.indexOf(entry);
+                if (index === -1) return;
+                this.queue.splice(index, 1);
+                reject(signal.reason ?? new DOMException('The operation was aborted.', 'AbortError'));
+                this.onChange();
+                this.drain();
+            }, { once: true });
+            this.onChange();
+            this.drain();
+        });
+    }
+
+    private refill() {
+        const now = Date.now();
+        const elapsedMinutes = (now - this.lastRefill) / 60000;
+        this.lastRefill = now;
+        if (this.limit.rpm > 0) this.requestBucket = Math.min(this.limit.rpm, this.requestBucket + elapsedMinutes * this.limit.rpm);
+        if (this.limit.tpm > 0) this.tokenBucket = Math.min(this.limit.tpm, this.tokenBucket + elapsedMinutes * this.limit.tpm);
+    }
+
+    private drain() {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        this.refill();
+        while (this.queue.length > 0) {
+            const head = this.queue[0];
+            const requestDeficit = this.limit.rpm > 0 ? 1 - this.requestBucket : 0;
+            const tokenDeficit = this.limit.tpm > 0 ? head.tokens - this.tokenBucket : 0;
+            if (requestDeficit > 0 || tokenDeficit > 0) {
+                const waitMs = Math.max(
+                    requestDeficit > 0 ? (requestDeficit / this.limit.rpm) * 60000 : 0,
+                    tokenDeficit > 0 ? (tokenDeficit / this.limit.tpm) * 60000 : 0
+                );
+                this.timer = setTimeout(() => this.drain(), Math.ceil(waitMs));
+                return;
+            }
+            this.queue.shift();
+            if (this.limit.rpm > 0) this.requestBucket -= 1;
+            if (this.limit.tpm > 0) this.tokenBucket -= head.tokens;
+            head.resolve();
+            this.onChange();
+        }
+    }
+}
+
+/**
+ * One limiter per provider (and one for Serper), shared by every caller in the app.
+ */
+class RateLimiterRegistry {
+    private limiters = new Map<string, TokenBucketRateLimiter>();
+    private limits: Record<string, RateLimit> = { ...DEFAULT_RATE_LIMITS };
+    private listeners = new Set<() => void>();
+
+    get(key: string): TokenBucketRateLimiter {
+        let limiter = this.limiters.get(key);
+        if (!limiter) {
+            limiter = new TokenBucketRateLimiter(this.limits[key] || { rpm: 0, tpm: 0 }, () => this.listeners.forEach(listener => listener()));
+            this.limiters.set(key, limiter);
+        }
+        return limiter;
+    }
+
+    configure(limits: Record<string, RateLimit>) {
+        this.limits = { ...this.limits, ...limits };
+        for (const [key, limiter] of this.limiters) {
+            if (this.limits[key]) limiter.setLimit(this.limits[key]);
+        }
+    }
+
+    getStats(): Record<string, RateLimiterStats> {
+        return Object.fromEntries(Array.from(this.limiters.entries()).map(([key, limiter]) => [key, limiter.getStats()]));
+    }
+
+    subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+}
+
+const rateLimiters = new RateLimiterRegistry();
+
+// --- END: Rate Limiting ---
+
+
+// --- START: Record & Replay Fixtures ---
+
+type FixtureMode = 'off' | 'record' | 'replay';
+
+type FixtureFile = {
+    version: 1;
+    recordedAt: string;
+    entries: Record<string, any>;
+};
+
+/**
+ * Fast, stable 53-bit string hash (cyrb53). Only used to key fixtures, not for security.
+ */
+const hashString = (text: string, seed = 0): string => {
+    let h1 = 0xdeadbeef ^ seed, h2 = 0x41c6ce57 ^ seed;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+};
+
+class FixtureMissError extends Error {
+    constructor(key: string) {
+        super(`No recorded fixture for '${key}'. Record this run first or switch replay off.`);
+        this.name = 'FixtureMissError';
+    }
+}
+
+/**
+ * Records every external response (AI stages, Serper, images) keyed by stage and a hash of its
+ * inputs, and serves them back in replay mode so the pipeline can run offline and deterministically.
+ */
+class FixtureStore {
+    public mode: FixtureMode = 'off';
+    private entries = new Map<string, any>();
+    private listeners = new Set<() => void>();
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    /**
+     * Routes an external call through the store: replays the recorded value, or runs the call
+     * (recording its result when in record mode). Failed calls are never recorded.
+     */
+    async intercept<T>(stage: string, inputs: unknown, call: () => Promise<T>): Promise<T> {
+        const key = `${stage}:${hashString(JSON.stringify(inputs) ?? '')}`;
+        if (this.mode === 'replay') {
+            if (!this.entries.has(key)) throw new FixtureMissError(key);
+            console.log(`[Fixtures] Replaying ${key}`);
+            return structuredClone(this.entries.get(key));
+        }
+        const result = await call();
+        if (this.mode === 'record') {
+            this.entries.set(key, structuredClone(result));
+            this.listeners.forEach(listener => listener());
+        }
+        return result;
+    }
+
+    toFile(): FixtureFile {
+        return { version: 1, recordedAt: new Date().toISOString(), entries: Object.fromEntries(this.entries) };
+    }
+
+    load(file: FixtureFile) {
+        if (file?.version !== 1 || typeof file.entries !== 'object') throw new Error('Not a valid fixture file.');
+        this.entries = new Map(Object.entries(file.entries));
+        this.listeners.forEach(listener => listener());
+    }
+
+    clear() {
+        this.entries.clear();
+        this.listeners.forEach(listener => listener());
+    }
+
+    subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+}
+
+const fixtureStore = new FixtureStore();
+
+/**
+ * POSTs a query to a Serper endpoint through the shared rate limiter and fixture store.
+ * `locale` sets the results' language (`hl`) and country (`gl`).
+ * @returns The parsed JSON body.
+ * @throws {Error} if Serper answers with a non-2xx status.
+ */
+const fetchSerperJson = (endpoint: 'search' | 'videos', apiKey: string, query: string, signal?: AbortSignal, locale: LanguageConfig['serperLocale'] = null): Promise<any> =>
+    // English queries keep their original fixture key.
+    fixtureStore.intercept(`serper:${endpoint}`, locale ? { query, ...locale } : query, async () => {
+        const response = await rateLimiters.get('serper').run(0, () => fetchWithProxies(`https://google.serper.dev/${endpoint}`, {
+            method: 'POST',
+            headers: { 'X-API-KEY': apiKey, 'Content-Type': 'application/json' },
+            body: JSON.stringify({ q: query, ...locale }),
+            signal,
+        }), signal);
+        if (!response.ok) throw new Error(`Serper API failed with status ${response.status}`);
+        return response.json();
+    });
+
+// --- END: Record & Replay Fixtures ---
+
+
+// --- START: Prompt Budgeting ---
+
+// Used when a provider hasn't reported the model's context window. Deliberately conservative.
+const DEFAULT_CONTEXT_WINDOWS: Record<AiProvider, number> = {
+    gemini: 1_048_576,
+    openai: 128_000,
+    anthropic: 200_000,
+    openrouter: 32_768,
+    groq: 32_768,
+    local: 8_192,
+};
+
+// Tokens held back from the context window for the model's answer.
+const RESPONSE_TOKEN_RESERVE = 8_192;
+
+// Cost guards: even a 1M-token model doesn't need a whole sitemap to score one page.
+const STAGE_PROMPT_TOKEN_CEILINGS: Partial<Record<PromptKey, number>> = {
+    content_meta_and_outline: 20_000,
+    content_health_analyzer: 6_000,
+};
+
+/**
+ * Looks up a model's context window in the discovered model catalog, falling back to the provider default.
+ */
+const getContextWindow = (provider: AiProvider, model: string, catalog: Partial<Record<AiProvider, ModelInfo[]>> = {}): number =>
+    catalog[provider]?.find(info => info.id === model)?.contextWindow || DEFAULT_CONTEXT_WINDOWS[provider];
+
+type PromptInputTrimmer = {
+    index: number; // Position of the input in the stage's prompt arguments
+    // Shrinks one argument by roughly `overflowTokens`; null when there's nothing left to trim.
+    trim(args: any[], overflowTokens: number, measure: (args: any[]) => number): any[] | null;
+    describe(original: any[], trimmed: any[]): string;
+};
+
+const trimListArg = (index: number, label: string): PromptInputTrimmer => ({
+    index,
+    trim(args, overflowTokens, measure) {
+        const list: any[] | null = args[index];
+        if (!list || list.length === 0) return null;
+        // Measured as rendered in the prompt, which may only use a few fields of each entry.
+        const withoutList = args.map((arg, i) => i === index ? [] : arg);
+        const tokensPerEntry = Math.max(1, (measure(args) - measure(withoutList)) / list.length);
+        const keep = Math.max(0, list.length - Math.ceil(overflowTokens / tokensPerEntry));
+        return args.map((arg, i) => i === index ? list.slice(0, keep) : arg);
+    },
+    describe: (original, trimmed) => `Dropped ${original[index].length - trimmed[index].length} of ${original[index].length} ${label}`,
+});
+
+const truncateTextArg = (index: number, label: string): PromptInputTrimmer => ({
+    index,
+    trim(args, overflowTokens) {
+        const text: string | null = args[index];
+        if (!text) return null;
+        const keepChars = Math.max(0, text.length - overflowTokens * CHARS_PER_TOKEN - 200);
+        return args.map((arg, i) => i === index ? text.substring(0, keepChars) : arg);
+    },
+    describe: (original, trimmed) => `Cut ${label} to ${(trimmed[index] || '').length.toLocaleString()} of ${original[index].length.toLocaleString()} characters`,
+});
+
+const countDigestEntries = (digest: OriginalArticleDigest | null): number =>
+    digest ? digest.headings.length + digest.facts.length + digest.figures.length + digest.uniqueAngles.length : 0;
+
+/** Drops digest entries from the end of each list: covered topics first, figures last. */
+const trimDigestArg = (index: number, label: string): PromptInputTrimmer => ({
+    index,
+    trim(args, overflowTokens, measure) {
+        const digest: OriginalArticleDigest | null = args[index];
+        const entryCount = countDigestEntries(digest);
+        if (!digest || entryCount === 0) return null;
+        const withoutDigest = args.map((arg, i) => i === index ? null : arg);
+        const tokensPerEntry = Math.max(1, (measure(args) - measure(withoutDigest)) / entryCount);
+        let toDrop = Math.ceil(overflowTokens / tokensPerEntry);
+        const trimmed = { ...digest };
+        for (const field of ['headings', 'uniqueAngles', 'facts', 'figures'] as const) {
+            const dropped = Math.min(toDrop, trimmed[field].length);
+            trimmed[field] = trimmed[field].slice(0, trimmed[field].length - dropped);
+            toDrop -= dropped;
+        }
+        return args.map((arg, i) => i === index ? trimmed : arg);
+    },
+    describe: (original, trimmed) => `Dropped ${countDigestEntries(original[index]) - countDigestEntries(trimmed[index])} of ${countDigestEntries(original[index])} ${label}`,
+});
+
+/**
+ * Per stage, the inputs that may be trimmed to fit the budget, lowest value first.
+ * The original article is worth more than SERP snippets, which are worth more than sitemap pages.
+ * A section needs the original article's facts more than the coverage summary, and both more than
+ * link targets.
+ */
+const PROMPT_INPUT_TRIMMERS: Partial<Record<PromptKey, PromptInputTrimmer[]>> = {
+    content_meta_and_outline: [trimListArg(3, 'sitemap pages'), trimListArg(2, 'SERP results'), truncateTextArg(4, 'the original article')],
+    write_article_section: [trimListArg(3, 'sitemap pages'), truncateTextArg(6, 'the coverage summary'), trimDigestArg(4, 'original article digest entries')],
+    content_health_analyzer: [truncateTextArg(0, 'the page content')],
+};
+
+/**
+ * Trims a stage's inputs until the prompt fits the serving model's budget.
+ * Token counts come from the conservative `estimateTokens`.
+ * @returns The (possibly trimmed) arguments and a note for every input that was cut.
+ */
+const fitPromptToBudget = (promptKey: PromptKey, systemInstruction: string, promptArgs: any[], contextWindow: number): { args: any[]; trimmedInputs: string[] } => {
+    const trimmers = PROMPT_INPUT_TRIMMERS[promptKey];
+    if (!trimmers) return { args: promptArgs, trimmedInputs: [] };
+
+    const budget = Math.min(contextWindow - RESPONSE_TOKEN_RESERVE, STAGE_PROMPT_TOKEN_CEILINGS[promptKey] ?? Infinity);
+    const measure = (args: any[]) => {
+        const { cacheablePrefix, userPrompt } = renderStagePrompt(promptKey, args);
+        return estimateTokens(systemInstruction + (cacheablePrefix || '') + userPrompt);
+    };
+    let args = promptArgs;
+
+    for (const trimmer of trimmers) {
+        // A few passes per input, since per-entry sizes vary.
+        for (let pass = 0; pass < 5; pass++) {
+            const overflow = measure(args) - budget;
+            if (overflow <= 0) break;
+            const trimmed = trimmer.trim(args, overflow, measure);
+            if (!trimmed) break;
+            args = trimmed;
+        }
+    }
+
+    const trimmedInputs = trimmers
+        .filter(trimmer => args[trimmer.index] !== promptArgs[trimmer.index])
+        .map(trimmer => trimmer.describe(promptArgs, args));
+    if (measure(args) > budget) {
+        console.warn(`[Budget] '${promptKey}' is still over its ${budget}-token budget after trimming every optional input.`);
+    }
+    if (trimmedInputs.length > 0) console.log(`[Budget] '${promptKey}' trimmed to fit ${budget} tokens:`, trimmedInputs);
+    return { args, trimmedInputs };
+};
+
+// --- END: Prompt Budgeting ---
+
+
+// --- START: Provider Adapter Layer ---
+
+type AiProvider = 'gemini' | 'openai' | 'anthropic' | 'openrouter' | 'groq' | 'local';
+
+const AI_PROVIDERS: { id: AiProvider; label: string }[] = [
+    { id: 'gemini', label: 'Google Gemini' },
+    { id: 'openai', label: 'OpenAI' },
+    { id: 'anthropic', label: 'Anthropic' },
+    { id: 'openrouter', label: 'OpenRouter' },
+    { id: 'groq', label: 'Groq' },
+    { id: 'local', label: 'Custom / Local' },
+];
+
+type AiUsage = {
+    promptTokens: number; // All input tokens, cached or not
+    completionTokens: number;
+    // Prompt-cache accounting, present only when the provider reports it.
+    cachedTokens?: number; // Input tokens read from the cache
+    cacheWriteTokens?: number; // Input tokens written to the cache (Anthropic bills these at a premium)
+};
+
+const addAiUsage = (a: AiUsage | null, b: AiUsage | null): AiUsage | null => {
+    if (!a || !b) return a || b;
+    const sum = (x?: number, y?: number) => x === undefined && y === undefined ? undefined : (x ?? 0) + (y ?? 0);
+    return {
+        promptTokens: a.promptTokens + b.promptTokens,
+        completionTokens: a.completionTokens + b.completionTokens,
+        cachedTokens: sum(a.cachedTokens, b.cachedTokens),
+        cacheWriteTokens: sum(a.cacheWriteTokens, b.cacheWriteTokens),
+    };
+};
+
+type AiTextRequest = {
+    systemInstruction: string;
+    userPrompt: string;
+    // Static context sent ahead of `userPrompt` and identical across calls (e.g. every section of an
+    // article). Adapters mark it cacheable or at least keep it at the front so prefix caching applies.
+    cacheablePrefix?: string;
+    responseFormat: 'json' | 'html';
+    model?: string; // Overrides the adapter's default model (or fallback list) for this call.
+    jsonSchema?: { name: string; schema: Schema }; // Enforced natively by adapters that support structured outputs.
+    signal?: AbortSignal;
+};
+
+type AiTextResponse = {
+    text: string;
+    provider: AiProvider;
+    model: string;
+    usage: AiUsage | null;
+    trimmedInputs?: string[]; // Inputs cut to fit the model's prompt budget
+    batched?: boolean; // Served by a batch job, which is billed at a discount
+};
+
+/** One prompt in a provider batch job; `customId` ties its result back to the prompt. */
+type AiBatchRequest = {
+    customId: string;
+    request: Omit<AiTextRequest, 'signal'>;
+};
+
+type AiBatchResult = {
+    customId: string;
+    response?: AiTextResponse;
+    error?: string;
+};
+
+type AiBatchStatus = {
+    state: 'in_progress' | 'completed' | 'failed';
+    completed: number;
+    total: number;
+    results?: AiBatchResult[]; // Set once the job has completed
+    error?: string;
+};
+
+type AiImageRequest = {
+    prompt: string;
+    numberOfImages: number;
+    aspectRatio: '1:1' | '16:9' | '9:16' | '4:3' | '3:4';
+    signal?: AbortSignal;
+};
+
+type AiImageResponse = {
+    images: string[]; // data: URIs
+    provider: AiProvider;
+    model: string;
+};
+
+type ModelInfo = {
+    id: string;
+    contextWindow: number | null; // Input tokens, when the provider reports it
+    supportsJsonMode: boolean | null; // null = the provider doesn't say
+};
+
+const formatModelInfo = ({ contextWindow, supportsJsonMode }: ModelInfo): string => [
+    contextWindow ? `${Math.round(contextWindow / 1000)}k context` : null,
+    supportsJsonMode === true ? 'JSON mode' : supportsJsonMode === false ? 'no JSON mode' : null,
+].filter(Boolean).join(' · ');
+
+/**
+ * The single contract every AI provider is reached through. No stage talks to an SDK
+ * client directly, so adding a provider or fixing a provider-specific bug happens here only.
+ */
+interface ProviderAdapter {
+    id: AiProvider;
+    defaultModel: string;
+    generateText(request: AiTextRequest): Promise<AiTextResponse>;
+    generateImages?(request: AiImageRequest): Promise<AiImageResponse>;
+    // Asynchronous batch APIs. Both are present or neither is.
+    submitBatch?(requests: AiBatchRequest[], signal?: AbortSignal): Promise<string>;
+    getBatch?(batchId: string, signal?: AbortSignal): Promise<AiBatchStatus>;
+    validateKey(): Promise<void>;
+    listModels(): Promise<ModelInfo[]>;
+}
+
+type ProviderClients = {
+    gemini: GoogleGenAI | null;
+    openai: OpenAI | null;
+    anthropic: Anthropic | null;
+    openrouter: OpenAI | null;
+    groq: OpenAI | null;
+    local: OpenAI | null;
+};
+
+type ProviderSettings = {
+    openrouterModels: string[];
+    groqModel: string;
+    localModel: string;
+};
+
+const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+    openrouterModels: AI_MODELS.OPENROUTER_DEFAULT,
+    groqModel: AI_MODELS.GROQ_MODELS[0],
+    localModel: AI_MODELS.LOCAL_DEFAULT,
+};
+
+/**
+ * Detects a server rejecting `response_format: json_object`. Many self-hosted and smaller
+ * models don't implement JSON mode and answer with a 4xx instead of ignoring the parameter.
+ * Only errors that name the parameter count; other 4xx responses (bad keys, oversized prompts)
+ * are real failures and must surface as they are.
+ */
+const isJsonModeUnsupportedError = (error: any): boolean => {
+    if (error?.param === 'response_format' || error?.error?.param === 'response_format') return true;
+    const code = String(error?.code || error?.error?.code || '').toLowerCase();
+    const message = String(error?.message || error?.error?.message || '').toLowerCase();
+    return code.includes('response_format') || code.includes('json_mode') || /response_format|json_object|json mode/.test(message);
+};
+
+const createGeminiAdapter = (client: GoogleGenAI, limiter = rateLimiters.get('gemini')): ProviderAdapter => ({
+    id: 'gemini',
+    defaultModel: AI_MODELS.GEMINI_FLASH,
+    async generateText({ systemInstruction, userPrompt, cacheablePrefix, responseFormat, model = AI_MODELS.GEMINI_FLASH, jsonSchema, signal }) {
+        // Gemini 2.5 caches repeated prompt prefixes implicitly, so the shared context just has to come first.
+        const contents = cacheablePrefix ? `${cacheablePrefix}\n\n${userPrompt}` : userPrompt;
+        const estimatedTokens = estimateTokens(systemInstruction + contents) + ESTIMATED_COMPLETION_TOKENS;
+        const response = await callAiWithRetry(() => limiter.run(estimatedTokens, () => client.models.generateContent({
+            model,
+            contents,
+            config: {
+                systemInstruction,
+                responseMimeType: responseFormat === 'json' ? "application/json" : "text/plain",
+                ...(responseFormat === 'json' && jsonSchema && { responseSchema: jsonSchema.schema }),
+                abortSignal: signal,
+            }
+        }), signal, result => result.usageMetadata?.totalTokenCount ?? null), undefined, undefined, signal);
+        const usage = response.usageMetadata;
+        return {
+            text: response.text ?? '',
+            provider: 'gemini',
+            model,
+            // Thinking tokens are billed as output tokens.
+            usage: usage ? {
+                promptTokens: usage.promptTokenCount ?? 0,
+                completionTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+                cachedTokens: usage.cachedContentTokenCount ?? 0,
+            } : null,
+        };
+    },
+    async generateImages({ prompt, numberOfImages, aspectRatio, signal }) {
+        const response = await callAiWithRetry(() => limiter.run(0, () => client.models.generateImages({
+            model: AI_MODELS.GEMINI_IMAGEN,
+            prompt,
+            config: { numberOfImages, outputMimeType: 'image/jpeg', aspectRatio, abortSignal: signal }
+        }), signal), undefined, undefined, signal);
+        const images = (response.generatedImages || [])
+            .map(img => img.image?.imageBytes)
+            .filter(Boolean)
+            .map(bytes => `data:image/jpeg;base64,${bytes}`);
+        return { images, provider: 'gemini', model: AI_MODELS.GEMINI_IMAGEN };
+    },
+    async validateKey() {
+        await callAiWithRetry(() => limiter.run(1, () => client.models.generateContent({ model: AI_MODELS.GEMINI_FLASH, contents: 'test' })));
+    },
+    async listModels() {
+        const models: ModelInfo[] = [];
+        for await (const model of await client.models.list()) {
+            // Embedding, TTS and other non-chat models can't serve a stage.
+            if (!model.name || !model.supportedActions?.includes('generateContent')) continue;
+            models.push({ id: model.name.replace(/^models\//, ''), contextWindow: model.inputTokenLimit ?? null, supportsJsonMode: true });
+        }
+        return models;
+    },
+});
+
+/**
+ * Shared adapter for OpenAI and every provider that speaks the OpenAI chat completions API.
+ * When more than one model is configured, they are tried in order until one returns a usable response.
+ * Providers without `json_schema` support get the schema spelled out in the system instruction instead.
+ */
+const createOpenAiCompatibleAdapter = (
+    id: AiProvider,
+    client: OpenAI,
+    config: { models: string[]; validationModel?: string; imageModel?: string; structuredOutputs?: boolean; batch?: boolean },
+    limiter = rateLimiters.get(id)
+): ProviderAdapter => {
+    // Models that reject JSON mode are remembered so later calls skip straight to plain-text JSON.
+    const modelsWithoutJsonMode = new Set<string>();
+
+    // Shared by interactive calls and batch job lines, which carry the same request body.
+    const buildCompletionBody = (
+        modelName: string,
+        { systemInstruction, userPrompt, cacheablePrefix, responseFormat, jsonSchema }: Omit<AiTextRequest, 'signal'>,
+        jsonMode: boolean
+    ): OpenAI.Chat.ChatCompletionCreateParamsNonStreaming => {
+        const useJsonSchema = config.structuredOutputs && !!jsonSchema;
+        const instructions = responseFormat === 'json' && jsonSchema && !useJsonSchema
+            ? `${systemInstruction}\n\nYour JSON MUST validate against this JSON Schema:\n${JSON.stringify(toJsonSchema(jsonSchema.schema))}`
+            : systemInstruction;
+        return {
+            model: modelName,
+            // OpenAI-style APIs cache identical prompt prefixes automatically, so the shared context goes first.
+            messages: [{ role: "system", content: instructions }, { role: "user", content: cacheablePrefix ? `${cacheablePrefix}\n\n${userPrompt}` : userPrompt }],
+            ...(jsonMode && {
+                response_format: useJsonSchema
+                    ? { type: "json_schema", json_schema: { name: jsonSchema!.name, schema: toJsonSchema(jsonSchema!.schema), strict: true } }
+                    : { type: "json_object" }
+            })
+        };
+    };
+
+    const toTextResponse = (modelName: string, completion: OpenAI.Chat.ChatCompletion): AiTextResponse => ({
+        text: completion.choices[0]?.message.content ?? '',
+        provider: id,
+        model: modelName,
+        usage: completion.usage ? {
+            promptTokens: completion.usage.prompt_tokens,
+            completionTokens: completion.usage.completion_tokens,
+            cachedTokens: completion.usage.prompt_tokens_details?.cached_tokens,
+        } : null,
+    });
+
+    const createCompletion = async (modelName: string, request: AiTextRequest) => {
+        const { systemInstruction, userPrompt, cacheablePrefix, responseFormat, signal } = request;
+        const useJsonMode = responseFormat === 'json' && !modelsWithoutJsonMode.has(modelName);
+        const estimatedTokens = estimateTokens(systemInstruction + (cacheablePrefix || '') + userPrompt) + ESTIMATED_COMPLETION_TOKENS;
+        const send = (jsonMode: boolean) => callAiWithRetry(() => limiter.run(estimatedTokens, () => client.chat.completions.create(
+            buildCompletionBody(modelName, request, jsonMode), { signal }
+        ), signal, result => result.usage?.total_tokens ?? null), undefined, undefined, signal);
+
+        try {
+            return await send(useJsonMode);
+        } catch (error: any) {
+            if (!useJsonMode || isAbortError(error, signal) || !isJsonModeUnsupportedError(error)) throw error;
+            console.warn(`[${id}] Model '${modelName}' rejected JSON mode. Retrying without it and parsing the JSON from plain text.`);
+            modelsWithoutJsonMode.add(modelName);
+            return await send(false);
+        }
+    };
+
+    return {
+        id,
+        defaultModel: config.models[0],
+        async generateText(request) {
+            const { responseFormat, model, signal } = request;
+            const candidates = model ? [model] : config.models;
+            let lastError: Error | null = null;
+
+            for (const modelName of candidates) {
+                try {
+                    if (candidates.length > 1) console.log(`[${id}] Attempting request with model: ${modelName}`);
+                    const response = toTextResponse(modelName, await createCompletion(modelName, request));
+                    if (!response.text) throw new Error("Empty response from model.");
+                    if (responseFormat === 'json') extractJson(response.text); // Reject unparseable output so the next model gets a chance.
+                    return response;
+                } catch (error: any) {
+                    if (isAbortError(error, signal)) throw error;
+                    console.error(`[${id}] Model '${modelName}' failed.${candidates.length > 1 ? ' Trying next...' : ''}`, error);
+                    lastError = error;
+                }
+            }
+            throw lastError || new Error(`No models configured for provider '${id}'.`);
+        },
+        ...(config.imageModel && {
+            async generateImages({ prompt, numberOfImages, aspectRatio, signal }: AiImageRequest) {
+                const size = aspectRatio === '16:9' || aspectRatio === '4:3' ? '1792x1024' : aspectRatio === '9:16' || aspectRatio === '3:4' ? '1024x1792' : '1024x1024';
+                const images: string[] = [];
+                // DALL-E 3 only accepts n=1, so multiple images are requested one at a time.
+                for (let i = 0; i < numberOfImages; i++) {
+                    const response = await callAiWithRetry(() => limiter.run(0, () => client.images.generate({ model: config.imageModel, prompt, n: 1, size, response_format: 'b64_json' }, { signal }), signal), undefined, undefined, signal);
+                    const base64Image = response.data?.[0]?.b64_json;
+                    if (base64Image) images.push(`data:image/png;base64,${base64Image}`);
+                }
+                return { images, provider: id, model: config.imageModel! };
+            }
+        }),
+        // The OpenAI Batch API: a JSONL file of chat completion requests, processed within 24 hours.
+        // The local provider uses it too, so a mock server implementing it can stand in for testing.
+        ...(config.batch && {
+            async submitBatch(requests: AiBatchRequest[], signal?: AbortSignal) {
+                const lines = requests.map(({ customId, request }) => JSON.stringify({
+                    custom_id: customId,
+                    method: 'POST',
+                    url: '/v1/chat/completions',
+                    body: buildCompletionBody(request.model || config.models[0], request, request.responseFormat === 'json'),
+                }));
+                const file = await callAiWithRetry(() => limiter.run(0, () => client.files.create({
+                    file: new File([lines.join('\n')], 'batch.jsonl', { type: 'application/jsonl' }),
+                    purpose: 'batch',
+                }, { signal }), signal), undefined, undefined, signal);
+                const batch = await callAiWithRetry(() => limiter.run(0, () => client.batches.create({
+                    input_file_id: file.id,
+                    endpoint: '/v1/chat/completions',
+                    completion_window: '24h',
+                }, { signal }), signal), undefined, undefined, signal);
+                return batch.id;
+            },
+            async getBatch(batchId: string, signal?: AbortSignal): Promise<AiBatchStatus> {
+                const batch = await callAiWithRetry(() => limiter.run(0, () => client.batches.retrieve(batchId, { signal }), signal), undefined, undefined, signal);
+                const completed = (batch.request_counts?.completed ?? 0) + (batch.request_counts?.failed ?? 0);
+                const total = batch.request_counts?.total ?? 0;
+                if (batch.status === 'failed' || batch.status === 'cancelling' || batch.status === 'cancelled') {
+                    return { state: 'failed', completed, total, error: batch.errors?.data?.map(e => e.message).join('; ') || `Batch ${batch.status}.` };
+                }
+                // An expired batch still delivers the requests it finished; the rest have no result.
+                if (batch.status !== 'completed' && batch.status !== 'expired') return { state: 'in_progress', completed, total };
+
+                const results: AiBatchResult[] = [];
+                for (const fileId of [batch.output_file_id, batch.error_file_id]) {
+                    if (!fileId) continue;
+                    const content = await callAiWithRetry(() => limiter.run(0, async () => (await client.files.content(fileId, { signal })).text(), signal), undefined, undefined, signal);
+                    for (const line of content.split('\n')) {
+                        if (!line.trim()) continue;
+                        const entry = JSON.parse(line);
+                        const body = entry.response?.body;
+                        results.push(entry.response?.status_code === 200 && body
+                            ? { customId: entry.custom_id, response: { ...toTextResponse(body.model, body), batched: true } }
+                            : { customId: entry.custom_id, error: entry.error?.message || body?.error?.message || `HTTP ${entry.response?.status_code}` });
+                    }
+                }
+                return { state: 'completed', completed, total, results };
+            },
+        }),
+        async validateKey() {
+            if (config.validationModel) {
+                await callAiWithRetry(() => limiter.run(1, () => client.chat.completions.create({
+                    model: config.validationModel!,
+                    messages: [{ role: "user", content: "test" }],
+                    max_tokens: 1
+                })));
+            } else {
+                await callAiWithRetry(() => limiter.run(0, async () => client.models.list()));
+            }
+        },
+        async listModels() {
+            const models: ModelInfo[] = [];
+            for await (const model of client.models.list()) {
+                // Groq reports `context_window`, OpenRouter `context_length` and `supported_parameters`.
+                const details = model as typeof model & { context_window?: number; context_length?: number; supported_parameters?: string[]; active?: boolean };
+                if (details.active === false) continue;
+                models.push({
+                    id: model.id,
+                    contextWindow: details.context_window ?? details.context_length ?? null,
+                    supportsJsonMode: details.supported_parameters ? details.supported_parameters.includes('response_format') : null,
+                });
+            }
+            return models;
+        },
+    };
+};
+
+const createAnthropicAdapter = (client: Anthropic, limiter = rateLimiters.get('anthropic')): ProviderAdapter => {
+    // Shared by interactive calls and batch jobs, which take the same message parameters.
+    const buildMessageParams = ({ systemInstruction, userPrompt, cacheablePrefix, responseFormat, model = AI_MODELS.ANTHROPIC_OPUS, jsonSchema }: Omit<AiTextRequest, 'signal'>): Anthropic.MessageCreateParamsNonStreaming => {
+        // Anthropic has no JSON mode; forcing a single tool call makes the tool input the structured output.
+        const useTool = responseFormat === 'json' && !!jsonSchema;
+        // Cache breakpoints after the system prompt and after the shared context. Prefixes below the
+        // model's minimum cacheable length are simply processed uncached.
+        return {
+            model,
+            max_tokens: 4096,
+            system: [{ type: 'text', text: systemInstruction, cache_control: { type: 'ephemeral' } }],
+            messages: [{
+                role: "user",
+                content: [
+                    ...(cacheablePrefix ? [{ type: 'text' as const, text: cacheablePrefix, cache_control: { type: 'ephemeral' as const } }] : []),
+                    { type: 'text' as const, text: userPrompt },
+                ],
+            }],
+            ...(useTool && {
+                tools: [{ name: jsonSchema!.name, description: 'Submit the result.', input_schema: toJsonSchema(jsonSchema!.schema) as Anthropic.Tool.InputSchema }],
+                tool_choice: { type: 'tool' as const, name: jsonSchema!.name },
+            }),
+        };
+    };
+
+    const toTextResponse = (message: Anthropic.Message, model: string): AiTextResponse => {
+        const toolUse = message.content.find(block => block.type === 'tool_use');
+        return {
+            text: toolUse ? JSON.stringify(toolUse.input) : message.content.map(block => block.type === 'text' ? block.text : '').join(""),
+            provider: 'anthropic',
+            model,
+            // `input_tokens` only counts the uncached remainder of the prompt.
+            usage: {
+                promptTokens: message.usage.input_tokens + (message.usage.cache_read_input_tokens ?? 0) + (message.usage.cache_creation_input_tokens ?? 0),
+                completionTokens: message.usage.output_tokens,
+                cachedTokens: message.usage.cache_read_input_tokens ?? 0,
+                cacheWriteTokens: message.usage.cache_creation_input_tokens ?? 0,
+            },
+        };
+    };
+
+    return {
+        id: 'anthropic',
+        defaultModel: AI_MODELS.ANTHROPIC_OPUS,
+        async generateText(request) {
+            const { systemInstruction, userPrompt, cacheablePrefix, signal } = request;
+            const params = buildMessageParams(request);
+            const estimatedTokens = estimateTokens(systemInstruction + (cacheablePrefix || '') + userPrompt) + ESTIMATED_COMPLETION_TOKENS;
+            const response = await callAiWithRetry(() => limiter.run(estimatedTokens, () => client.messages.create(params, { signal }),
+                signal, result => result.usage.input_tokens + result.usage.output_tokens), undefined, undefined, signal);
+            return toTextResponse(response, params.model);
+        },
+        async submitBatch(requests, signal) {
+            const batch = await callAiWithRetry(() => limiter.run(0, () => client.messages.batches.create({
+                requests: requests.map(({ customId, request }) => ({ custom_id: customId, params: buildMessageParams(request) })),
+            }, { signal }), signal), undefined, undefined, signal);
+            return batch.id;
+        },
+        async getBatch(batchId, signal) {
+            const batch = await callAiWithRetry(() => limiter.run(0, () => client.messages.batches.retrieve(batchId, { signal }), signal), undefined, undefined, signal);
+            const { processing, succeeded, errored, canceled, expired } = batch.request_counts;
+            const completed = succeeded + errored + canceled + expired;
+            if (batch.processing_status !== 'ended') return { state: 'in_progress', completed, total: completed + processing };
+
+            // Canceled and expired requests come back as per-request results, so an ended batch never fails as a whole.
+            const results: AiBatchResult[] = [];
+            const entries = await callAiWithRetry(() => limiter.run(0, () => client.messages.batches.results(batchId, { signal }), signal), undefined, undefined, signal);
+            for await (const entry of entries) {
+                const { result } = entry;
+                results.push(result.type === 'succeeded'
+                    ? { customId: entry.custom_id, response: { ...toTextResponse(result.message, result.message.model), batched: true } }
+                    : { customId: entry.custom_id, error: result.type === 'errored' ? result.error.error.message : `Request ${result.type}.` });
+            }
+            return { state: 'completed', completed, total: completed, results };
+        },
+        async validateKey() {
+            await callAiWithRetry(() => limiter.run(1, () => client.messages.create({
+                model: AI_MODELS.ANTHROPIC_HAIKU,
+                max_tokens: 1,
+                messages: [{ role: "user", content: "test" }],
+            })));
+        },
+        async listModels() {
+            const models: ModelInfo[] = [];
+            for await (const model of client.models.list()) {
+                // The models API doesn't report context windows, so DEFAULT_CONTEXT_WINDOWS applies.
+                // Structured output goes through tool use.
+                models.push({ id: model.id, contextWindow: null, supportsJsonMode: true });
+            }
+            return models;
+        },
+    };
+};
+
+/**
+ * Creates the SDK client for a provider. Clients are kept in state once their key validates;
+ * adapters are derived from them so that model settings can change without re-validating.
+ */
+const createProviderClient = (provider: AiProvider, apiKey: string, baseUrl?: string): GoogleGenAI | OpenAI | Anthropic => {
+    switch (provider) {
+        case 'gemini':
+            return new GoogleGenAI({ apiKey });
+        case 'openai':
+            return new OpenAI({ apiKey, dangerouslyAllowBrowser: true });
+        case 'anthropic':
+            return new Anthropic({ apiKey, dangerouslyAllowBrowser: true });
+        case 'openrouter':
+            return new OpenAI({
+                baseURL: "https://openrouter.ai/api/v1",
+                apiKey,
+                dangerouslyAllowBrowser: true,
+                defaultHeaders: {
+                    'HTTP-Referer': window.location.href,
+                    'X-Title': 'WP Content Optimizer Pro',
+                }
+            });
+        case 'groq':
+            return new OpenAI({
+                baseURL: "https://api.groq.com/openai/v1",
+                apiKey,
+                dangerouslyAllowBrowser: true,
+            });
+        case 'local':
+            // Self-hosted servers (Ollama, llama.cpp, vLLM) usually ignore the key, but the SDK requires one.
+            return new OpenAI({
+                baseURL: (baseUrl || '').replace(/\/+$/, ''),
+                apiKey: apiKey || 'not-needed',
+                dangerouslyAllowBrowser: true,
+            });
+    }
+};
+
+const createProviderAdapter = (provider: AiProvider, client: GoogleGenAI | OpenAI | Anthropic, settings: ProviderSettings): ProviderAdapter => {
+    switch (provider) {
+        case 'gemini':
+            return createGeminiAdapter(client as GoogleGenAI);
+        case 'openai':
+            return createOpenAiCompatibleAdapter('openai', client as OpenAI, { models: [AI_MODELS.OPENAI_GPT4_TURBO], imageModel: AI_MODELS.OPENAI_DALLE3, structuredOutputs: true, batch: true });
+        case 'anthropic':
+            return createAnthropicAdapter(client as Anthropic);
+        case 'openrouter':
+            return createOpenAiCompatibleAdapter('openrouter', client as OpenAI, { models: settings.openrouterModels, validationModel: AI_MODELS.OPENROUTER_DEFAULT[0] });
+        case 'groq':
+            return createOpenAiCompatibleAdapter('groq', client as OpenAI, { models: [settings.groqModel], validationModel: AI_MODELS.GROQ_MODELS[1] }); // A small model keeps validation cheap
+        case 'local':
+            return createOpenAiCompatibleAdapter('local', client as OpenAI, { models: [settings.localModel || AI_MODELS.LOCAL_DEFAULT], batch: true });
+    }
+};
+
+const createProviderAdapters = (clients: ProviderClients, settings: ProviderSettings): Record<AiProvider, ProviderAdapter | null> => {
+    const adapters = {} as Record<AiProvider, ProviderAdapter | null>;
+    for (const { id } of AI_PROVIDERS) {
+        const client = clients[id];
+        adapters[id] = client ? createProviderAdapter(id, client, settings) : null;
+    }
+    return adapters;
+};
+
+/**
+ * A routing entry for one prompt stage. 'default' follows the main provider selected in Step 1;
+ * an empty model uses that provider's default model (or OpenRouter fallback list).
+ */
+type StageRoute = {
+    provider: AiProvider | 'default';
+    model: string;
+};
+
+type StageRouting = Record<PromptKey, StageRoute>;
+
+const createDefaultStageRouting = (): StageRouting => {
+    const routing = {} as StageRouting;
+    PROMPT_STAGES.forEach(({ key }) => { routing[key] = { provider: 'default', model: '' }; });
+    return routing;
+};
+
+/**
+ * Determines which provider and model should serve a stage.
+ * @returns The provider id and an optional model override for the adapter.
+ */
+const resolveStageRoute = (routing: StageRouting, promptKey: PromptKey, defaultProvider: AiProvider): { provider: AiProvider; model?: string } => {
+    const route = routing[promptKey];
+    const provider = route && route.provider !== 'default' ? route.provider : defaultProvider;
+    return { provider, model: route?.model.trim() || undefined };
+};
+
+/**
+ * Renders a stage's user prompt. Stages with a `sharedContext` template return it separately so it
+ * can be sent as a cacheable prefix.
+ */
+const renderStagePrompt = (promptKey: PromptKey, args: any[]): { cacheablePrefix?: string; userPrompt: string } => {
+    const template = PROMPT_TEMPLATES[promptKey];
+    const override = promptOverrideStore.getActive(promptKey);
+    return {
+        // @ts-ignore
+        cacheablePrefix: 'sharedContext' in template ? template.sharedContext(...args) : undefined,
+        // @ts-ignore
+        userPrompt: override?.userPrompt.trim() ? fillPromptPattern(override.userPrompt, promptKey, args) : template.userPrompt(...args),
+    };
+};
+
+/**
+ * Builds a stage's system instruction and prompts, with inputs trimmed to fit the context window.
+ */
+const preparePromptStage = (promptKey: PromptKey, promptArgs: any[], contextWindow: number, geoLocation?: string | null, profile: ContentProfile = DEFAULT_CONTENT_PROFILE, voice: VoiceProfile = DEFAULT_VOICE_PROFILE, language: ContentLanguage = 'en') => {
+    const template = PROMPT_TEMPLATES[promptKey];
+    const baseInstruction = promptOverrideStore.getActive(promptKey)?.systemInstruction || template.systemInstruction;
+    // Geo-targeting replacement is only relevant for the cluster planner
+    const systemInstruction = applyContentProfile((promptKey === 'cluster_planner')
+        ? baseInstruction.replace('{{GEO_TARGET_INSTRUCTIONS}}', geoLocation ? `All titles must be geo-targeted for "${geoLocation}".` : '')
+        : baseInstruction, profile)
+        .replace('{{VOICE_INSTRUCTIONS}}', formatVoiceInstructions(voice))
+        + (language !== 'en' && LOCALIZED_STAGES.includes(promptKey) ? formatLanguageInstructions(language) : '');
+    const { args, trimmedInputs } = fitPromptToBudget(promptKey, systemInstruction, promptArgs, contextWindow);
+    return { systemInstruction, ...renderStagePrompt(promptKey, args), trimmedInputs };
+};
+
+/**
+ * Resolves a PROMPT_TEMPLATES stage into its final prompts and runs it against an adapter.
+ * Lives outside the component so any stage can be exercised against a fake adapter.
+ */
+const runPromptStage = async (
+    adapter: ProviderAdapter,
+    promptKey: PromptKey,
+    promptArgs: any[],
+    responseFormat: 'json' | 'html' = 'json',
+    options: { geoLocation?: string | null; profile?: ContentProfile; voice?: VoiceProfile; language?: ContentLanguage; model?: string; contextWindow?: number; signal?: AbortSignal } = {}
+): Promise<AiTextResponse> => {
+    const contextWindow = options.contextWindow ?? getContextWindow(adapter.id, options.model || adapter.defaultModel);
+    const { systemInstruction, cacheablePrefix, userPrompt, trimmedInputs } = preparePromptStage(promptKey, promptArgs, contextWindow, options.geoLocation, options.profile, options.voice, options.language);
+
+    const schema = responseFormat === 'json' ? getStageSchema(promptKey, options.profile) : undefined;
+    const jsonSchema = schema ? { name: promptKey, schema } : undefined;
+    let prompt = userPrompt;
+    let usage: AiUsage | null = null;
+    let lastResponse: AiTextResponse | null = null;
+    let errors: string[] = [];
+
+    for (let attempt = 0; attempt <= (schema ? MAX_SCHEMA_REPAIR_ATTEMPTS : 0); attempt++) {
+        const response = await adapter.generateText({ systemInstruction, userPrompt: prompt, cacheablePrefix, responseFormat, model: options.model, jsonSchema, signal: options.signal });
+        usage = addAiUsage(usage, response.usage);
+        lastResponse = response;
+        if (!response.text) {
+            throw new EmptyResponseError(promptKey, { ...response, usage, trimmedInputs });
+        }
+        if (!schema) return { ...response, usage, trimmedInputs };
+
+        let parsed: any;
+        try {
+            parsed = JSON.parse(extractJson(response.text));
+            errors = validateAgainstSchema(parsed, schema);
+        } catch (error: any) {
+            errors = [`$: response is not valid JSON (${error.message})`];
+        }
+        if (errors.length === 0) return { ...response, text: JSON.stringify(parsed), usage, trimmedInputs };
+
+        console.warn(`[Schema] '${promptKey}' response failed validation (attempt ${attempt + 1}):`, errors);
+        prompt = `${userPrompt}
+
+Your previous response was rejected because it does not match the required JSON schema.
+<previous_response>
+${response.text}
+</previous_response>
+<validation_errors>
+${errors.map(e => `- ${e}`).join('\n')}
+</validation_errors>
+Return the corrected, complete JSON object only. Fix every listed error and keep everything that was valid.`;
+    }
+    throw new SchemaValidationError(promptKey, errors, lastResponse && { ...lastResponse, usage, trimmedInputs });
+};
+
+/**
+ * Builds the ordered list of providers to try for a stage: the routed provider first, then every
+ * provider in the failover chain that isn't already in the list.
+ */
+const buildFailoverRoutes = (
+    primary: { provider: AiProvider; model?: string },
+    failoverChain: AiProvider[]
+): { provider: AiProvider; model?: string }[] => [
+    primary,
+    ...failoverChain.filter((provider, index) => provider !== primary.provider && failoverChain.indexOf(provider) === index).map(provider => ({ provider })),
+];
+
+/**
+ * Runs a stage against each route in order. A provider only hands over once `callAiWithRetry`
+ * has given up on it, so transient errors are still retried in place. Cancellation is never failed over.
+ * Routes that failed after being billed are passed to `onBilledFailure` so their cost still counts.
+ */
+const runPromptStageWithFailover = async (
+    adapters: Record<AiProvider, ProviderAdapter | null>,
+    routes: { provider: AiProvider; model?: string }[],
+    promptKey: PromptKey,
+    promptArgs: any[],
+    responseFormat: 'json' | 'html' = 'json',
+    options: { geoLocation?: string | null; profile?: ContentProfile; voice?: VoiceProfile; language?: ContentLanguage; modelCatalog?: Partial<Record<AiProvider, ModelInfo[]>>; signal?: AbortSignal; onBilledFailure?: (response: AiTextResponse) => void } = {}
+): Promise<AiTextResponse> => {
+    let lastError: Error | null = null;
+    for (const [index, { provider, model }] of routes.entries()) {
+        const adapter = adapters[provider];
+        if (!adapter) {
+            if (index === 0) lastError = new Error(`API Client for '${provider}' (stage '${promptKey}') not initialized.`);
+            continue;
+        }
+        try {
+            if (index > 0) console.warn(`[Failover] Trying '${provider}' for the '${promptKey}' stage.`);
+            const contextWindow = getContextWindow(provider, model || adapter.defaultModel, options.modelCatalog);
+            return await runPromptStage(adapter, promptKey, promptArgs, responseFormat, { geoLocation: options.geoLocation, profile: options.profile, voice: options.voice, language: options.language, signal: options.signal, model, contextWindow });
+        } catch (error: any) {
+            if (error instanceof SchemaValidationError || error instanceof EmptyResponseError) {
+                if (error.billed) options.onBilledFailure?.(error.billed);
+            }
+            if (isAbortError(error, options.signal)) throw error;
+            console.error(`[Failover] '${provider}' failed for the '${promptKey}' stage.`, error);
+            lastError = error;
+        }
+    }
+    throw lastError || new Error(`No provider is available for the '${promptKey}' stage.`);
+};
+
+// --- END: Provider Adapter Layer ---
+
+
+// --- START: Usage & Cost Accounting ---
+
+/**
+ * List prices in USD per 1M tokens. OpenRouter ids ("vendor/model") fall back to the bare model
+ * name. Local models and anything missing from the table are treated as free.
+ */
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+    'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+    'gpt-4o': { input: 2.50, output: 10.00 },
+    'claude-3-7-sonnet-20250219': { input: 3.00, output: 15.00 },
+    'claude-3-5-haiku-20241022': { input: 0.80, output: 4.00 },
+    'claude-3-haiku': { input: 0.25, output: 1.25 },
+    'wizardlm-2-8x22b': { input: 0.48, output: 0.48 },
+    'llama-3.3-70b-versatile': { input: 0.59, output: 0.79 },
+    'llama-3.1-8b-instant': { input: 0.05, output: 0.08 },
+    'gemma2-9b-it': { input: 0.20, output: 0.20 },
+    'llama3-70b-8192': { input: 0.59, output: 0.79 },
+    'llama3-8b-8192': { input: 0.05, output: 0.08 },
+    'llama-4-scout-17b-16e-instruct': { input: 0.11, output: 0.34 },
+};
+
+// USD per generated image, at the sizes this app requests.
+const IMAGE_PRICING: Record<string, number> = {
+    'imagen-4.0-generate-001': 0.04,
+    'dall-e-3': 0.08,
+};
+
+// Price of cached input relative to the normal input price. Providers missing here get no discount.
+const CACHE_READ_PRICE_MULTIPLIER: Partial<Record<AiProvider, number>> = { anthropic: 0.1, gemini: 0.25, openai: 0.5 };
+const CACHE_WRITE_PRICE_MULTIPLIER: Partial<Record<AiProvider, number>> = { anthropic: 1.25 };
+// OpenAI and Anthropic both bill batch jobs at half price.
+const BATCH_PRICE_MULTIPLIER = 0.5;
+
+type CostSummary = {
+    promptTokens: number;
+    completionTokens: number;
+    images: number;
+    cost: number; // USD
+    cachedTokens: number;
+    cacheHits: number; // Calls that read part of their prompt from the cache
+    cacheMisses: number; // Calls that reported cache usage but read nothing from it
+};
+
+const createEmptyCostSummary = (): CostSummary => ({ promptTokens: 0, completionTokens: 0, images: 0, cost: 0, cachedTokens: 0, cacheHits: 0, cacheMisses: 0 });
+
+const addCostSummaries = (a: CostSummary, b: CostSummary): CostSummary => ({
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    images: a.images + b.images,
+    cost: a.cost + b.cost,
+    cachedTokens: (a.cachedTokens ?? 0) + (b.cachedTokens ?? 0),
+    cacheHits: (a.cacheHits ?? 0) + (b.cacheHits ?? 0),
+    cacheMisses: (a.cacheMisses ?? 0) + (b.cacheMisses ?? 0),
+});
+
+const describeCostSummary = (summary: CostSummary): string =>
+    `${summary.promptTokens.toLocaleString()} input / ${summary.completionTokens.toLocaleString()} output tokens, ${summary.images} image(s)` +
+    (summary.cacheHits || summary.cacheMisses ? `\nPrompt cache: ${summary.cacheHits} hit(s), ${summary.cacheMisses} miss(es), ${summary.cachedTokens.toLocaleString()} tokens read from cache` : '');
+
+const lookupModelPricing = (model: string) => MODEL_PRICING[model] || MODEL_PRICING[model.split('/').pop() || ''] || null;
+
+/**
+ * Converts a text response's usage into a priced summary.
+ */
+const priceTextResponse = (response: AiTextResponse): CostSummary => {
+    const usage = response.usage || { promptTokens: 0, completionTokens: 0 };
+    const pricing = response.provider === 'local' ? null : lookupModelPricing(response.model);
+    if (!pricing && response.provider !== 'local') {
+        console.warn(`[Cost] No price known for model '${response.model}'. Counting its tokens as free.`);
+    }
+    const cachedTokens = usage.cachedTokens ?? 0;
+    const cacheWriteTokens = usage.cacheWriteTokens ?? 0;
+    const inputCost = pricing
+        ? (usage.promptTokens - cachedTokens - cacheWriteTokens) * pricing.input
+            + cachedTokens * pricing.input * (CACHE_READ_PRICE_MULTIPLIER[response.provider] ?? 1)
+            + cacheWriteTokens * pricing.input * (CACHE_WRITE_PRICE_MULTIPLIER[response.provider] ?? 1)
+        : 0;
+    const cost = pricing ? (inputCost + usage.completionTokens * pricing.output) / 1_000_000 * (response.batched ? BATCH_PRICE_MULTIPLIER : 1) : 0;
+    const reportsCache = usage.cachedTokens !== undefined;
+    return {
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        images: 0,
+        cost,
+        cachedTokens,
+        cacheHits: reportsCache && cachedTokens > 0 ? 1 : 0,
+        cacheMisses: reportsCache && cachedTokens === 0 ? 1 : 0,
+    };
+};
+
+const priceImageResponse = (response: AiImageResponse): CostSummary => ({
+    ...createEmptyCostSummary(),
+    images: response.images.length,
+    cost: response.images.length * (IMAGE_PRICING[response.model] ?? 0),
+});
+
+const formatCost = (cost: number): string => `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+
+/**
+ * Thrown before an AI call when the batch has already spent its configured budget.
+ */
+class BudgetExceededError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BudgetExceededError';
+    }
+}
+
+// --- END: Usage & Cost Accounting ---
+
+
+// --- START: Batch Execution ---
+
+// Batch jobs take minutes to hours, so there is no point polling more often than this.
+const BATCH_POLL_INTERVAL_MS = 30_000;
+
+// The stages bulk generation hands to the batch API. Earlier stages decide what these prompts are.
+const BATCH_STAGES: PromptKey[] = ['write_article_section', 'write_faq_answer'];
+
+/** A stage prompt queued for a batch job. `stage` is its provenance label. */
+type BatchPrompt = {
+    customId: string; // Anthropic only accepts [a-zA-Z0-9_-]{1,64}
+    promptKey: PromptKey;
+    promptArgs: any[];
+    stage: string;
+    profile?: ContentProfile; // The owning item's content profile
+    voice?: VoiceProfile;
+    language?: ContentLanguage;
+};
+
+/**
+ * What a batch prompt will likely cost: the prompt as `runBatchJob` builds it, plus the usual
+ * reserve for the response, at the model's batch price. Models without a known price count as free.
+ */
+const estimateBatchPromptCost = (prompt: BatchPrompt, provider: AiProvider, model: string, contextWindow: number): number => {
+    const pricing = provider === 'local' ? null : lookupModelPricing(model);
+    if (!pricing) return 0;
+    const { systemInstruction, cacheablePrefix, userPrompt } = preparePromptStage(prompt.promptKey, prompt.promptArgs, contextWindow, null, prompt.profile, prompt.voice, prompt.language);
+    const promptTokens = estimateTokens(systemInstruction + (cacheablePrefix || '') + userPrompt);
+    return (promptTokens * pricing.input + ESTIMATED_COMPLETION_TOKENS * pricing.output) / 1_000_000 * BATCH_PRICE_MULTIPLIER;
+};
+
+/**
+ * Submits prompts to a provider as one batch job and polls until it completes. Prompts are built
+ * and trimmed exactly as `runPromptStage` builds them for interactive calls.
+ * @returns The results keyed by custom id. Prompts the provider returned nothing for are missing.
+ */
+const runBatchJob = async (
+    adapter: ProviderAdapter,
+    prompts: BatchPrompt[],
+    responseFormat: 'json' | 'html',
+    options: { model?: string; contextWindow: number; onProgress?: (status: AiBatchStatus) => void; signal?: AbortSignal }
+): Promise<Map<string, AiBatchResult>> => {
+    if (!adapter.submitBatch || !adapter.getBatch) throw new Error(`Provider '${adapter.id}' has no batch API.`);
+    const model = options.model || adapter.defaultModel;
+    const trimmedInputsById = new Map<string, string[]>();
+    const requests: AiBatchRequest[] = prompts.map(({ customId, promptKey, promptArgs, profile, voice, language }) => {
+        const { systemInstruction, cacheablePrefix, userPrompt, trimmedInputs } = preparePromptStage(promptKey, promptArgs, options.contextWindow, null, profile, voice, language);
+        trimmedInputsById.set(customId, trimmedInputs);
+        return { customId, request: { systemInstruction, userPrompt, cacheablePrefix, responseFormat, model } };
+    });
+
+    const batchId = await adapter.submitBatch(requests, options.signal);
+    console.log(`[Batch] Submitted ${requests.length} prompts to ${adapter.id} as batch '${batchId}'.`);
+    try {
+        while (true) {
+            const status = await adapter.getBatch(batchId, options.signal);
+            options.onProgress?.(status);
+            if (status.state === 'failed') throw new Error(`Batch '${batchId}' on ${adapter.id} failed: ${status.error}`);
+            if (status.state === 'completed') {
+                // Providers report dated model snapshots; the requested name is the one with a price.
+                return new Map(status.results!.map(result => [result.customId, result.response
+                    ? { ...result, response: { ...result.response, model, trimmedInputs: trimmedInputsById.get(result.customId) } }
+                    : result]));
+            }
+            await abortableSleep(BATCH_POLL_INTERVAL_MS, options.signal);
+        }
+    } catch (error) {
+        if (isAbortError(error, options.signal)) console.warn(`[Batch] Stopped waiting for batch '${batchId}'. It keeps running on ${adapter.id} until it finishes or expires.`);
+        throw error;
+    }
+};
+
+// --- END: Batch Execution ---
+
+
+// --- START: Prompt Template Overrides ---
+
+/**
+ * The names of each template's arguments, in order, for `{{name}}` variables in an override's user
+ * prompt. `inline` marks arguments the built-in prompt always prints as they are; the default
+ * pattern shows those as variables and leaves out the optional blocks built from the others.
+ * `block` marks arguments that carry instructions the stage depends on, such as a rewrite request.
+ * They are filled with the built-in block's text and appended to an override that leaves them out,
+ * so no override can drop them.
+ */
+const PROMPT_VARIABLES: Record<PromptKey, { name: string; inline?: boolean; block?: (value: any) => string }[]> = {
+    cluster_planner: [{ name: 'topic', inline: true }],
+    content_meta_and_outline: [{ name: 'primaryKeyword', inline: true }, { name: 'semanticKeywords' }, { name: 'serpData' }, { name: 'existingPages' }, { name: 'originalContent' }, { name: 'originalDigest' }],
+    write_article_section: [{ name: 'primaryKeyword', inline: true }, { name: 'articleTitle', inline: true }, { name: 'sectionHeading', inline: true }, { name: 'existingPages' }, { name: 'originalDigest' }, { name: 'articleOutline' }, { name: 'coveredSoFar', block: formatCoveredSoFarBlock }, { name: 'revision', block: formatRevisionBlock }],
+    write_faq_answer: [{ name: 'question', inline: true }],
+    humanize_sentences: [{ name: 'flaggedSentences', inline: true }],
+    original_article_digest: [{ name: 'primaryKeyword', inline: true }, { name: 'chunk', inline: true }, { name: 'chunkNumber', inline: true }, { name: 'chunkCount', inline: true }],
+    semantic_keyword_generator: [{ name: 'primaryKeyword', inline: true }],
+    content_health_analyzer: [{ name: 'content', inline: true }],
+};
+
+/** The built-in user prompt as a pattern, with every inline argument shown as its variable. */
+const getDefaultUserPattern = (promptKey: PromptKey): string => {
+    const args = PROMPT_VARIABLES[promptKey].map(({ name, inline }) => inline ? `{{${name}}}` : null);
+    // @ts-ignore
+    return PROMPT_TEMPLATES[promptKey].userPrompt(...args).trim();
+};
+
+/** The block variables an override's user prompt leaves out, which are appended when it is filled. */
+const getMissingBlockVariables = (pattern: string, promptKey: PromptKey): string[] =>
+    PROMPT_VARIABLES[promptKey].filter(({ name, block }) => block && !pattern.includes(`{{${name}}}`)).map(({ name }) => name);
+
+/** Fills an override's `{{name}}` variables. Lists and objects are inserted as JSON, missing values as nothing. */
+const fillPromptPattern = (pattern: string, promptKey: PromptKey, args: any[]): string => {
+    const variables = PROMPT_VARIABLES[promptKey];
+    const values = new Map(variables.map(({ name }, i) => [name, args[i]]));
+    const missingBlocks = getMissingBlockVariables(pattern, promptKey);
+    const filled = pattern.replace(/\{\{(\w+)\}\}/g, (match, name) => {
+        if (!values.has(name)) return match; // Profile and voice tokens are filled later
+        const value = values.get(name);
+        const block = variables.find(variable => variable.name === name)?.block;
+        if (block) return block(value ?? null);
+        if (value === null || value === undefined) return '';
+        return typeof value === 'string' || typeof value === 'number' ? String(value) : JSON.stringify(value);
+    });
+    return filled + missingBlocks.map(name => variables.find(variable => variable.name === name)!.block!(values.get(name) ?? null)).join('');
+};
+
+/** A saved override of one template. An empty user prompt keeps the built-in one. */
+type PromptVersion = {
+    id: string;
+    name: string;
+    createdAt: string;
+    systemInstruction: string;
+    userPrompt: string;
+};
+
+type PromptOverrideState = {
+    versions: Partial<Record<PromptKey, PromptVersion[]>>;
+    active: Partial<Record<PromptKey, string>>; // Version id per template; missing means the built-in template
+};
+
+/**
+ * Saved template versions and which one each stage uses, persisted in localStorage. Versions are
+ * never edited in place, so an article's recorded version always names the text that wrote it.
+ */
+class PromptOverrideStore {
+    private state: PromptOverrideState;
+    private listeners = new Set<() => void>();
+
+    constructor() {
+        try {
+            this.state = JSON.parse(localStorage.getItem('promptOverrides') || 'null') || { versions: {}, active: {} };
+        } catch {
+            this.state = { versions: {}, active: {} };
+        }
+    }
+
+    versions(promptKey: PromptKey): PromptVersion[] {
+        return this.state.versions[promptKey] || [];
+    }
+
+    /** @returns The version a stage uses, or null for the built-in template. */
+    getActive(promptKey: PromptKey): PromptVersion | null {
+        return this.versions(promptKey).find(version => version.id === this.state.active[promptKey]) || null;
+    }
+
+    /** The id of the version a stage uses, 'default' for the built-in template. Part of cache and fixture keys. */
+    activeVersionId(promptKey: PromptKey): string {
+        return this.getActive(promptKey)?.id || 'default';
+    }
+
+    /** The name of the version a stage uses, for recording with the stage's output. */
+    activeVersionName(promptKey: PromptKey): string {
+        return this.getActive(promptKey)?.name || 'default';
+    }
+
+    addVersion(promptKey: PromptKey, version: Omit<PromptVersion, 'id' | 'createdAt'>): PromptVersion {
+        const saved = { ...version, id: `v${Date.now().toString(36)}`, createdAt: new Date().toISOString() };
+        this.state.versions[promptKey] = [...this.versions(promptKey), saved];
+        this.persist();
+        return saved;
+    }
+
+    deleteVersion(promptKey: PromptKey, versionId: string) {
+        this.state.versions[promptKey] = this.versions(promptKey).filter(version => version.id !== versionId);
+        if (this.state.active[promptKey] === versionId) delete this.state.active[promptKey];
+        this.persist();
+    }
+
+    /** Makes a version the one a stage uses; null goes back to the built-in template. */
+    activate(promptKey: PromptKey, versionId: string | null) {
+        if (versionId) this.state.active[promptKey] = versionId;
+        else delete this.state.active[promptKey];
+        this.persist();
+    }
+
+    subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    private persist() {
+        localStorage.setItem('promptOverrides', JSON.stringify(this.state));
+        this.listeners.forEach(listener => listener());
+    }
+}
+
+const promptOverrideStore = new PromptOverrideStore();
+
+/**
+ * The template versions an article's stages were written with. A stage that ran under more than one
+ * version, e.g. when a template changed between a stopped run and its resumption, lists them all.
+ */
+const summarizePromptVersions = (provenance: ProvenanceEntry[]): Partial<Record<PromptKey, string>> => {
+    const versions = new Map<PromptKey, Set<string>>();
+    provenance.forEach(({ promptKey, promptVersion }) => {
+        if (!promptKey || !promptVersion) return;
+        if (!versions.has(promptKey)) versions.set(promptKey, new Set());
+        versions.get(promptKey)!.add(promptVersion);
+    });
+    return Object.fromEntries([...versions].map(([promptKey, names]) => [promptKey, [...names].join(' + ')]));
+};
+
+// --- END: Prompt Template Overrides ---
+
+// --- START: Generation Checkpoints ---
+
+/**
+ * Everything an item's generation has produced so far. A stage that hasn't finished is undefined;
+ * sections and FAQ answers are stored by outline position, with null for the missing ones.
+ */
+type GenerationCheckpoint = {
+    title: string; // A checkpoint is only reused for the title it was made for.
+    research?: { serpData: any[] | null; youtubeVideos: any[] | null };
+    semanticKeywords?: string[] | null;
+    originalDigest?: OriginalArticleDigest | null;
+    metaAndOutline?: any;
+    outlineApproved?: boolean; // Set when the outline was reviewed in the outline editor
+    sectionHtmls: (string | null)[];
+    faqAnswerHtmls: (string | null)[];
+    provenance: ProvenanceEntry[];
+    trimmedInputs: NonNullable<GeneratedContent['trimmedInputs']>;
+};
+
+const createEmptyCheckpoint = (title: string): GenerationCheckpoint => ({ title, sectionHtmls: [], faqAnswerHtmls: [], provenance: [], trimmedInputs: [] });
+
+/**
+ * Keeps each item's stage outputs in localStorage so that a failed, stopped or reloaded generation
+ * resumes from the first missing piece. Checkpoints are removed once the item's content is saved.
+ */
+class CheckpointStore {
+    private listeners = new Set<() => void>();
+
+    private key(itemId: string): string {
+        return `checkpoint:${hashString(itemId)}`;
+    }
+
+    has(itemId: string): boolean {
+        return localStorage.getItem(this.key(itemId)) !== null;
+    }
+
+    load(item: { id: string; title: string }): GenerationCheckpoint | null {
+        try {
+            const checkpoint = JSON.parse(localStorage.getItem(this.key(item.id)) || 'null');
+            return checkpoint?.title === item.title ? checkpoint : null;
+        } catch {
+            return null;
+        }
+    }
+
+    save(itemId: string, checkpoint: GenerationCheckpoint) {
+        const isNew = !this.has(itemId);
+        try {
+            localStorage.setItem(this.key(itemId), JSON.stringify(checkpoint));
+        } catch (error) {
+            // Most likely the storage quota. Generation carries on; it just can't resume from here.
+            console.warn(`[Checkpoint] Could not save progress for "${checkpoint.title}".`, error);
+        }
+        if (isNew) this.listeners.forEach(listener => listener());
+    }
+
+    clear(itemId: string) {
+        localStorage.removeItem(this.key(itemId));
+        this.listeners.forEach(listener => listener());
+    }
+
+    subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+}
+
+const checkpointStore = new CheckpointStore();
+
+// --- END: Generation Checkpoints ---
+
+type AiCallOptions = {
+    onUsage?: (usage: CostSummary) => void;
+    onResponse?: (source: { provider: AiProvider; model: string; trimmedInputs: string[]; promptVersion: string }) => void; // Which provider actually answered, after any failover, and with which template version.
+    signal?: AbortSignal;
+    profile?: ContentProfile; // Fills the prompt's length and structure requirements
+    voice?: VoiceProfile; // Fills the writing prompts' style rules
+    language?: ContentLanguage; // The language published text is written in
+};
+
+type ContentItem = {
     id: string;
     title: string;
     type: 'pillar' | 'cluster' | 'standard';
-    status: 'idle' | 'generating' | 'done' | 'error';
+    language?: ContentLanguage; // Overrides the project language
+    status: 'idle' | 'generating' | 'outline_ready' | 'done' | 'error';
     statusText: string;
     generatedContent: GeneratedContent | null;
     crawledContent: string | null;
     originalUrl?: string;
+    cost?: CostSummary;
 };
 
 type SeoCheck = {
@@ -1290,12 +3851,14 @@ type ItemsAction =
     | { type: 'SET_ITEMS'; payload: Partial<ContentItem>[] }
     | { type: 'UPDATE_STATUS'; payload: { id: string; status: ContentItem['status']; statusText: string } }
     | { type: 'SET_CONTENT'; payload: { id: string; content: GeneratedContent } }
-    | { type: 'SET_CRAWLED_CONTENT'; payload: { id: string; content: string } };
+    | { type: 'SET_CRAWLED_CONTENT'; payload: { id: string; content: string } }
+    | { type: 'ADD_USAGE'; payload: { id: string; usage: CostSummary } }
+    | { type: 'SET_LANGUAGE'; payload: { id: string; language: ContentLanguage | undefined } };
 
 const itemsReducer = (state: ContentItem[], action: ItemsAction): ContentItem[] => {
     switch (action.type) {
         case 'SET_ITEMS':
-            return action.payload.map((item: any) => ({ ...item, status: 'idle', statusText: 'Not Started', generatedContent: null, crawledContent: item.crawledContent || null }));
+            return action.payload.map((item: any) => ({ ...item, status: 'idle', statusText: 'Not Started', generatedContent: null, crawledContent: item.crawledContent || null, cost: createEmptyCostSummary() }));
         case 'UPDATE_STATUS':
             return state.map(item =>
                 item.id === action.payload.id
@@ -1314,6 +3877,18 @@ const itemsReducer = (state: ContentItem[], action: ItemsAction): ContentItem[]
                     ? { ...item, crawledContent: action.payload.content }
                     : item
             );
+        case 'ADD_USAGE':
+            return state.map(item =>
+                item.id === action.payload.id
+                    ? { ...item, cost: addCostSummaries(item.cost || createEmptyCostSummary(), action.payload.usage) }
+                    : item
+            );
+        case 'SET_LANGUAGE':
+            return state.map(item =>
+                item.id === action.payload.id
+                    ? { ...item, language: action.payload.language }
+                    : item
+            );
         default:
             return state;
     }
@@ -1396,6 +3971,22 @@ const ApiKeyInput = memo(({ provider, value, onChange, status, name, placeholder
     );
 });
 
+const RATE_LIMITED_SERVICES: { id: string; label: string }[] = [...AI_PROVIDERS, { id: 'serper', label: 'Serper' }];
+
+const RateLimitStatus = memo(({ stats }: { stats: Record<string, RateLimiterStats> }) => {
+    const queued = RATE_LIMITED_SERVICES.filter(({ id }) => stats[id]?.queueDepth > 0);
+    if (queued.length === 0) return null;
+    return (
+        <div className="rate-limit-status" role="status">
+            {queued.map(({ id, label }) => (
+                <span key={id} className="rate-limit-chip">
+                    {label}: {stats[id].queueDepth} queued, waiting {Math.round(stats[id].waitMs / 1000)}s
+                </span>
+            ))}
+        </div>
+    );
+});
+
 const SeoChecklist = memo(({ checks }: { checks: Record<string, SeoCheck> }) => (
     <ul className="guardian-checklist">
         {Object.entries(checks).map(([key, check]) => (
@@ -1412,9 +4003,11 @@ const SeoChecklist = memo(({ checks }: { checks: Record<string, SeoCheck> }) =>
 ));
 
 // --- START: Advanced Content Quality Analysis ---
-const countSyllables = (word: string): number => {
+const countSyllables = (word: string, language: ContentLanguage = 'en'): number => {
     if (!word) return 0;
     word = word.toLowerCase().trim();
+    const { syllablePattern } = CONTENT_LANGUAGES[language];
+    if (syllablePattern) return Math.max(1, (word.match(syllablePattern) || []).length);
     if (word.length <= 3) { return 1; }
     word = word.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '');
     word = word.replace(/^y/, '');
@@ -1422,17 +4015,19 @@ const countSyllables = (word: string): number => {
     return matches ? matches.length : 0;
 };
 
-const calculateFleschReadability = (text: string): number => {
+/** Flesch reading ease, with the language's own adaptation of the formula (Amstad for German, Fernández Huerta for Spanish). */
+const calculateFleschReadability = (text: string, language: ContentLanguage = 'en'): number => {
     const sentences = (text.match(/[.!?]+/g) || []).length || 1;
     const words = text.split(/\s+/).filter(Boolean).length;
     if (words < 100) return 0; // Not enough content for an accurate score
 
     let syllableCount = 0;
     text.split(/\s+/).forEach(word => {
-        syllableCount += countSyllables(word);
+        syllableCount += countSyllables(word, language);
     });
 
-    const fleschScore = 206.835 - 1.015 * (words / sentences) - 84.6 * (syllableCount / words);
+    const { base, sentenceWeight, syllableWeight } = CONTENT_LANGUAGES[language].flesch;
+    const fleschScore = base - sentenceWeight * (words / sentences) - syllableWeight * (syllableCount / words);
     return Math.round(Math.min(100, Math.max(0, fleschScore)));
 };
 // --- END: Advanced Content Quality Analysis ---
@@ -1445,8 +4040,9 @@ interface RankGuardianProps {
         primaryKeyword: string;
         content: string;
     };
+    language?: ContentLanguage;
 }
-const RankGuardian = memo(({ seoData }: RankGuardianProps) => {
+const RankGuardian = memo(({ seoData, language = 'en' }: RankGuardianProps) => {
     const checks = useMemo(() => {
         const { title, metaDescription, primaryKeyword, content } = seoData;
         const tempDiv = document.createElement('div');
@@ -1487,14 +4083,14 @@ const RankGuardian = memo(({ seoData }: RankGuardianProps) => {
             }
         };
         
-        const readabilityScore = calculateFleschReadability(textContent);
+        const readabilityScore = calculateFleschReadability(textContent, language);
         const allChecks = { ...titleChecks, ...metaChecks, ...contentChecks };
         const seoScore = Object.values(allChecks).filter(c => c.valid).length;
         const totalChecks = Object.keys(allChecks).length;
         const seoScorePercent = Math.round((seoScore / totalChecks) * 100);
 
         return { titleChecks, metaChecks, contentChecks, readabilityScore, seoScorePercent };
-    }, [seoData]);
+    }, [seoData, language]);
 
     const ScoreCircle = ({ score, label }: { score: number; label: string }) => {
         const radius = 40;
@@ -1557,14 +4153,17 @@ const escapeRegExp = (string: string) => {
 interface ReviewModalProps {
     item: ContentItem;
     onClose: () => void;
-    onSaveChanges: (itemId: string, updatedSeo: { title: string; metaDescription: string; slug: string }, updatedContent: string) => void;
+    onSaveChanges: (itemId: string, updatedSeo: { title: string; metaDescription: string; slug: string }, updatedContent: string, rewriteProvenance: ProvenanceEntry[]) => void;
     wpConfig: { url: string, username: string };
     wpPassword: string;
     onPublishSuccess: (originalUrl: string) => void;
     publishItem: (itemToPublish: ContentItem, currentWpPassword: string) => Promise<{ success: boolean; message: React.ReactNode; link?: string }>;
+    onRewriteSection: (item: ContentItem, articleHtml: string, heading: string, currentHtml: string, instruction: string) => Promise<{ html: string; source: ProvenanceEntry }>;
+    onHumanizeSentences: (item: ContentItem, sentences: FlaggedSentence[]) => Promise<{ sentences: string[]; source: ProvenanceEntry }>;
+    bannedTerms: string[]; // The active brand voice's, flagged alongside the built-in phrases
 }
 
-const ReviewModal = ({ item, onClose, onSaveChanges, wpConfig, wpPassword, onPublishSuccess, publishItem }: ReviewModalProps) => {
+const ReviewModal = ({ item, onClose, onSaveChanges, wpConfig, wpPassword, onPublishSuccess, publishItem, onRewriteSection, onHumanizeSentences, bannedTerms }: ReviewModalProps) => {
     if (!item || !item.generatedContent) return null;
 
     const [activeTab, setActiveTab] = useState('Live Preview');
@@ -1580,6 +4179,17 @@ const ReviewModal = ({ item, onClose, onSaveChanges, wpConfig, wpPassword, onPub
     const lineNumbersRef = useRef<HTMLPreElement>(null);
     const [lineCount, setLineCount] = useState(1);
 
+    // Section rewrite state
+    const [selectedSectionIndex, setSelectedSectionIndex] = useState<number | null>(null);
+    const [sectionInstruction, setSectionInstruction] = useState('');
+    const [sectionRewrite, setSectionRewrite] = useState<{ status: 'idle' | 'loading' | 'ready' | 'error'; html?: string; source?: ProvenanceEntry; error?: string }>({ status: 'idle' });
+
+    // Humanizing rewrite state
+    const [humanizeRewrite, setHumanizeRewrite] = useState<{ status: 'idle' | 'loading' | 'ready' | 'error'; rewrites?: { blockIndex: number; sentenceIndex: number; before: string; after: string }[]; source?: ProvenanceEntry; error?: string }>({ status: 'idle' });
+
+    // Where each accepted rewrite came from, recorded on the article when the changes are saved
+    const [rewriteProvenance, setRewriteProvenance] = useState<ProvenanceEntry[]>([]);
+
     useEffect(() => {
         if (item && item.generatedContent) {
             const isUpdate = !!item.originalUrl;
@@ -1593,6 +4203,10 @@ const ReviewModal = ({ item, onClose, onSaveChanges, wpConfig, wpPassword, onPub
             });
             setEditedContent(item.generatedContent.content);
             setActiveTab('Live Preview'); // Reset tab on new item
+            setSelectedSectionIndex(null);
+            setSectionRewrite({ status: 'idle' });
+            setHumanizeRewrite({ status: 'idle' });
+            setRewriteProvenance([]);
             setWpPublishStatus('idle'); // Reset publish status
             setWpPublishMessage('');
         }
@@ -1608,13 +4222,100 @@ const ReviewModal = ({ item, onClose, onSaveChanges, wpConfig, wpPassword, onPub
         if (lineNumbersRef.current && editorRef.current) {
             lineNumbersRef.current.scrollTop = editorRef.current.scrollTop;
         }
-    }, []);
+    }, []);
+
+
+    const sections = useMemo(() => splitArticleSections(editedContent), [editedContent]);
+    const selectedSection = selectedSectionIndex !== null ? sections[selectedSectionIndex] : null;
+    const repeatedParagraphs = useMemo(() => findRepeatedParagraphs(editedContent), [editedContent]);
+    const language = item.generatedContent.language || 'en';
+    const humanWritingReport = useMemo(() => buildHumanWritingReport(editedContent, bannedTerms, language), [editedContent, bannedTerms, language]);
+    const flaggedSentences = useMemo(() => collectFlaggedSentences(humanWritingReport), [humanWritingReport]);
+
+    const previewContent = useMemo(() => {
+        // The editedContent now contains the base64 images directly, so no replacement is needed for preview.
+        // Rewritable H2s are tagged with their section index so a click can select them.
+        let index = -1;
+        const repeatedByIndex = new Map<number, RepeatedParagraph>(repeatedParagraphs.map(repeat => [repeat.index, repeat]));
+        let paragraphIndex = -1;
+        return highlightAiPhrases(editedContent, bannedTerms, language)
+            .replace(/<h2\b/gi, () => {
+                index++;
+                if (!sections[index]?.rewritable) return '<h2';
+                return `<h2 data-section-index="${index}"${index === selectedSectionIndex ? ' class="section-selected"' : ''}`;
+            })
+            .replace(/<p\b/gi, () => {
+                const repeat = repeatedByIndex.get(++paragraphIndex);
+                return repeat ? `<p class="paragraph-repeated" title="Repeats a paragraph in &quot;${repeat.repeatsSection.replace(/"/g, '&quot;')}&quot;"` : '<p';
+            });
+    }, [editedContent, sections, selectedSectionIndex, repeatedParagraphs, bannedTerms, language]);
+
+    const sectionDiff = useMemo(() => {
+        if (!selectedSection || sectionRewrite.status !== 'ready') return [];
+        return diffBlocks(splitHtmlBlocks(selectedSection.html), splitHtmlBlocks(rebuildSection(selectedSection, sectionRewrite.html!)));
+    }, [selectedSection, sectionRewrite]);
+
+    const handlePreviewClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        const heading = (e.target as HTMLElement).closest('h2[data-section-index]');
+        if (!heading) return;
+        setSelectedSectionIndex(Number(heading.getAttribute('data-section-index')));
+        setSectionRewrite({ status: 'idle' });
+    };
+
+    const handleRewriteSection = async () => {
+        if (!selectedSection) return;
+        setSectionRewrite({ status: 'loading' });
+        try {
+            const { html, source } = await onRewriteSection(item, editedContent, selectedSection.heading, getSectionBody(selectedSection), sectionInstruction.trim());
+            setSectionRewrite({ status: 'ready', html, source });
+        } catch (error: any) {
+            setSectionRewrite({ status: 'error', error: error.message });
+        }
+    };
+
+    /** Selects the section holding a repeated paragraph and suggests an instruction to fix it. */
+    const handleFixRepeat = (repeat: RepeatedParagraph) => {
+        const index = sections.findIndex(section => section.rewritable && section.heading === repeat.section);
+        if (index === -1) return;
+        setSelectedSectionIndex(index);
+        setSectionRewrite({ status: 'idle' });
+        const opening = repeat.text.split(' ').slice(0, 10).join(' ');
+        setSectionInstruction(`Rewrite the paragraph starting "${opening}..." so it no longer repeats what "${repeat.repeatsSection}" already says`);
+    };
+
+    /** Rewrites only the flagged sentences; the rest of the article is left as it is. */
+    const handleHumanizeSentences = async () => {
+        setHumanizeRewrite({ status: 'loading' });
+        try {
+            const { sentences: rewritten, source } = await onHumanizeSentences(item, flaggedSentences);
+            const rewrites = flaggedSentences
+                .map(({ sentence, blockIndex, sentenceIndex }, i) => ({ blockIndex, sentenceIndex, before: sentence, after: rewritten[i] }))
+                .filter(({ before, after }) => after && after !== before);
+            setHumanizeRewrite({ status: 'ready', rewrites, source });
+        } catch (error: any) {
+            setHumanizeRewrite({ status: 'error', error: error.message });
+        }
+    };
 
+    const handleAcceptHumanizedSentences = () => {
+        setEditedContent(replaceFlaggedSentences(editedContent, humanizeRewrite.rewrites || []));
+        if (humanizeRewrite.source) setRewriteProvenance(prev => [...prev, humanizeRewrite.source!]);
+        setHumanizeRewrite({ status: 'idle' });
+    };
 
-    const previewContent = useMemo(() => {
-        // The editedContent now contains the base64 images directly, so no replacement is needed for preview.
-        return editedContent;
-    }, [editedContent]);
+    const handleAcceptSectionRewrite = () => {
+        if (!selectedSection || selectedSectionIndex === null || !sectionRewrite.html) return;
+        setEditedContent(replaceArticleSection(editedContent, selectedSectionIndex, rebuildSection(selectedSection, sectionRewrite.html)));
+        if (sectionRewrite.source) setRewriteProvenance(prev => [...prev, sectionRewrite.source!]);
+        setSectionRewrite({ status: 'idle' });
+        setSectionInstruction('');
+    };
+
+    /** Saves the edits; the accepted rewrites are recorded once, so a second save doesn't repeat them. */
+    const handleSave = () => {
+        onSaveChanges(item.id, editedSeo, editedContent, rewriteProvenance);
+        setRewriteProvenance([]);
+    };
 
     const handleSeoChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
         const { name, value } = e.target;
@@ -1709,7 +4410,105 @@ const ReviewModal = ({ item, onClose, onSaveChanges, wpConfig, wpPassword, onPub
 
                 <div className="tab-content">
                     {activeTab === 'Live Preview' && (
-                        <div id="tab-panel-Live-Preview" role="tabpanel" className="live-preview" dangerouslySetInnerHTML={{ __html: previewContent }}></div>
+                        <>
+                            <div className="section-rewrite-panel">
+                                {selectedSection ? (
+                                    <>
+                                        <div className="section-rewrite-header">
+                                            <span><strong>Section:</strong> {selectedSection.heading}</span>
+                                            <button className="btn btn-small btn-secondary" onClick={() => { setSelectedSectionIndex(null); setSectionRewrite({ status: 'idle' }); }}>Deselect</button>
+                                        </div>
+                                        <div className="section-rewrite-controls">
+                                            <input
+                                                type="text"
+                                                value={sectionInstruction}
+                                                onChange={e => setSectionInstruction(e.target.value)}
+                                                placeholder='Optional instruction, e.g. "add a comparison table" or "shorter"'
+                                                aria-label="Rewrite instruction"
+                                                disabled={sectionRewrite.status === 'loading'}
+                                            />
+                                            <button className="btn btn-small" onClick={handleRewriteSection} disabled={sectionRewrite.status === 'loading'}>
+                                                {sectionRewrite.status === 'loading' ? 'Writing...' : sectionInstruction.trim() ? 'Rewrite Section' : 'Regenerate Section'}
+                                            </button>
+                                        </div>
+                                        {sectionRewrite.status === 'error' && <div className="result error">{sectionRewrite.error}</div>}
+                                        {sectionRewrite.status === 'ready' && (
+                                            <>
+                                                <div className="section-diff">
+                                                    {sectionDiff.map((part, i) => (
+                                                        <div key={i} className={`diff-block diff-${part.type}`} dangerouslySetInnerHTML={{ __html: part.text }}></div>
+                                                    ))}
+                                                </div>
+                                                <div className="section-rewrite-actions">
+                                                    <button className="btn btn-small btn-secondary" onClick={() => setSectionRewrite({ status: 'idle' })}>Keep Original</button>
+                                                    <button className="btn btn-small" onClick={handleAcceptSectionRewrite}>Use New Version</button>
+                                                </div>
+                                            </>
+                                        )}
+                                    </>
+                                ) : (
+                                    <>
+                                        <p className="help-text" style={{ margin: 0 }}>Click a section heading in the preview to regenerate or rewrite just that section.</p>
+                                        {repeatedParagraphs.length > 0 && (
+                                            <div className="repeated-paragraphs">
+                                                <strong>{repeatedParagraphs.length} paragraph{repeatedParagraphs.length === 1 ? '' : 's'} repeat earlier content:</strong>
+                                                <ul>
+                                                    {repeatedParagraphs.map(repeat => (
+                                                        <li key={repeat.index}>
+                                                            <span>"{repeat.section}" repeats "{repeat.repeatsSection}" ({Math.round(repeat.similarity * 100)}% overlap)</span>
+                                                            {sections.some(section => section.rewritable && section.heading === repeat.section) && (
+                                                                <button className="btn btn-small btn-secondary" onClick={() => handleFixRepeat(repeat)}>Rewrite</button>
+                                                            )}
+                                                        </li>
+                                                    ))}
+                                                </ul>
+                                            </div>
+                                        )}
+                                        <div className="ai-phrase-report">
+                                            <div className="ai-phrase-report-header">
+                                                <strong>Human writing score: {humanWritingReport.score}%</strong>
+                                                <span className="help-text">Average sentence: {humanWritingReport.averageSentenceLength.toFixed(1)} words</span>
+                                                {flaggedSentences.length > 0 && (
+                                                    <button className="btn btn-small" onClick={handleHumanizeSentences} disabled={humanizeRewrite.status === 'loading'}>
+                                                        {humanizeRewrite.status === 'loading' ? 'Rewriting...' : `Rewrite ${flaggedSentences.length} Flagged Sentence${flaggedSentences.length === 1 ? '' : 's'}`}
+                                                    </button>
+                                                )}
+                                            </div>
+                                            {humanWritingReport.findings.length > 0 && (
+                                                <ul>
+                                                    {humanWritingReport.findings.map(finding => (
+                                                        <li key={finding.phrase}>
+                                                            <span><mark className="ai-phrase">{finding.phrase}</mark> &times;{finding.count}</span>
+                                                            <span className="ai-phrase-sections">{[...new Set(finding.locations.map(location => location.section))].join(', ')}</span>
+                                                        </li>
+                                                    ))}
+                                                </ul>
+                                            )}
+                                            {humanizeRewrite.status === 'error' && <div className="result error">{humanizeRewrite.error}</div>}
+                                            {humanizeRewrite.status === 'ready' && (
+                                                humanizeRewrite.rewrites!.length === 0 ? (
+                                                    <p className="help-text">The model returned the sentences unchanged.</p>
+                                                ) : (
+                                                    <>
+                                                        <div className="section-diff">
+                                                            {humanizeRewrite.rewrites!.flatMap(({ before, after }, i) => [
+                                                                <div key={`${i}-before`} className="diff-block diff-removed" dangerouslySetInnerHTML={{ __html: before }}></div>,
+                                                                <div key={`${i}-after`} className="diff-block diff-added" dangerouslySetInnerHTML={{ __html: after }}></div>,
+                                                            ])}
+                                                        </div>
+                                                        <div className="section-rewrite-actions">
+                                                            <button className="btn btn-small btn-secondary" onClick={() => setHumanizeRewrite({ status: 'idle' })}>Keep Original</button>
+                                                            <button className="btn btn-small" onClick={handleAcceptHumanizedSentences}>Use Rewritten Sentences</button>
+                                                        </div>
+                                                    </>
+                                                )
+                                            )}
+                                        </div>
+                                    </>
+                                )}
+                            </div>
+                            <div id="tab-panel-Live-Preview" role="tabpanel" className="live-preview sections-selectable" onClick={handlePreviewClick} dangerouslySetInnerHTML={{ __html: previewContent }}></div>
+                        </>
                     )}
                     
                     {activeTab === 'Editor' && (
@@ -1819,7 +4618,7 @@ const ReviewModal = ({ item, onClose, onSaveChanges, wpConfig, wpPassword, onPub
                                 </div>
                                 {activeSeoTab === 'guardian' && (
                                     <div className="rank-guardian-container">
-                                        <RankGuardian seoData={{ ...editedSeo, primaryKeyword, content: editedContent }} />
+                                        <RankGuardian seoData={{ ...editedSeo, primaryKeyword, content: editedContent }} language={item.generatedContent.language} />
                                     </div>
                                 )}
                             </div>
@@ -1839,7 +4638,7 @@ const ReviewModal = ({ item, onClose, onSaveChanges, wpConfig, wpPassword, onPub
                     </div>
 
                     <div className="modal-actions">
-                        <button className="btn btn-secondary" onClick={() => onSaveChanges(item.id, editedSeo, editedContent)}>Save Changes</button>
+                        <button className="btn btn-secondary" onClick={handleSave}>Save Changes</button>
                         <button className="btn btn-secondary" onClick={handleCopyHtml}>{copyStatus}</button>
                         <button 
                             className="btn btn-success"
@@ -1938,6 +4737,211 @@ const BulkPublishModal = ({ items, onClose, publishItem, wpPassword, onPublishSu
 };
 
 
+interface EditableListProps {
+    label: string;
+    values: string[];
+    onChange: (values: string[]) => void;
+    addLabel: string;
+}
+
+/** A list of single-line text entries that can be edited, reordered, removed and added to. */
+const EditableList = ({ label, values, onChange, addLabel }: EditableListProps) => {
+    const move = (index: number, direction: -1 | 1) => {
+        const next = [...values];
+        [next[index], next[index + direction]] = [next[index + direction], next[index]];
+        onChange(next);
+    };
+    return (
+        <div className="outline-editor-list">
+            <h3>{label} <span className="help-text">({values.length})</span></h3>
+            {values.map((value, index) => (
+                <div key={index} className="outline-editor-row">
+                    <input type="text" value={value} onChange={e => onChange(values.map((v, i) => i === index ? e.target.value : v))} aria-label={`${label} ${index + 1}`} />
+                    <button className="btn btn-small btn-secondary" onClick={() => move(index, -1)} disabled={index === 0} aria-label="Move up">↑</button>
+                    <button className="btn btn-small btn-secondary" onClick={() => move(index, 1)} disabled={index === values.length - 1} aria-label="Move down">↓</button>
+                    <button className="btn btn-small btn-secondary" onClick={() => onChange(values.filter((_, i) => i !== index))} aria-label="Remove">✕</button>
+                </div>
+            ))}
+            <button className="btn btn-small btn-secondary" onClick={() => onChange([...values, ''])}>+ {addLabel}</button>
+        </div>
+    );
+};
+
+interface OutlineEditorModalProps {
+    item: ContentItem;
+    outline: any;
+    onClose: () => void;
+    onApprove: (item: ContentItem, editedOutline: any) => void;
+}
+
+/**
+ * The review gate between the outline and section writing. Edits the H2 headings, FAQ questions
+ * and key takeaways of a paused item; approving resumes generation from the edited plan.
+ */
+const OutlineEditorModal = ({ item, outline, onClose, onApprove }: OutlineEditorModalProps) => {
+    const [title, setTitle] = useState<string>(outline.title);
+    const [headings, setHeadings] = useState<string[]>(outline.outline);
+    const [faqQuestions, setFaqQuestions] = useState<string[]>(outline.faqSection.map((faq: { question: string }) => faq.question));
+    const [takeaways, setTakeaways] = useState<string[]>(outline.keyTakeaways);
+
+    const clean = (values: string[]) => values.map(v => v.trim()).filter(Boolean);
+    const cleanHeadings = clean(headings);
+
+    const handleApprove = () => onApprove(item, {
+        ...outline,
+        title: title.trim() || outline.title,
+        outline: cleanHeadings,
+        faqSection: clean(faqQuestions).map(question => ({ question })),
+        keyTakeaways: clean(takeaways),
+    });
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content outline-editor-modal" onClick={e => e.stopPropagation()}>
+                <div className="outline-editor-header">
+                    <h2>Review Outline: {item.title}</h2>
+                    <button className="modal-close-btn" onClick={onClose} aria-label="Close modal">&times;</button>
+                </div>
+                <div className="outline-editor-body">
+                    <div className="form-group">
+                        <label htmlFor="outlineTitle">Article Title</label>
+                        <input type="text" id="outlineTitle" value={title} onChange={e => setTitle(e.target.value)} />
+                    </div>
+                    <EditableList label="Section Headings (H2)" values={headings} onChange={setHeadings} addLabel="Add heading" />
+                    <EditableList label="FAQ Questions" values={faqQuestions} onChange={setFaqQuestions} addLabel="Add question" />
+                    <EditableList label="Key Takeaways" values={takeaways} onChange={setTakeaways} addLabel="Add takeaway" />
+                </div>
+                <div className="modal-footer">
+                    <span className="help-text" style={{ margin: 0 }}>
+                        {cleanHeadings.length} sections and {clean(faqQuestions).length} FAQ answers will be written. Videos and the second image go after sections 3, 5 and 7.
+                    </span>
+                    <button className="btn" onClick={handleApprove} disabled={cleanHeadings.length === 0}>Approve & Write Sections</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+interface PromptTemplateEditorProps {
+    disabled: boolean; // While generating, so an article's recorded versions match what wrote it
+}
+
+/**
+ * Settings panel for overriding a stage's system instruction and user prompt. Edits are saved as
+ * new named versions, shown as a line diff against the built-in template, and activated per stage.
+ */
+const PromptTemplateEditor = ({ disabled }: PromptTemplateEditorProps) => {
+    const [, setVersion] = useState(0);
+    useEffect(() => promptOverrideStore.subscribe(() => setVersion(v => v + 1)), []);
+
+    const [promptKey, setPromptKey] = useState<PromptKey>(PROMPT_STAGES[0].key);
+    const [viewedVersionId, setViewedVersionId] = useState<string | null>(null);
+    const [draftSystem, setDraftSystem] = useState('');
+    const [draftUser, setDraftUser] = useState('');
+    const [draftName, setDraftName] = useState('');
+
+    const versions = promptOverrideStore.versions(promptKey);
+    const activeVersion = promptOverrideStore.getActive(promptKey);
+    const defaultSystem = PROMPT_TEMPLATES[promptKey].systemInstruction;
+    const defaultUser = useMemo(() => getDefaultUserPattern(promptKey), [promptKey]);
+
+    // Load the viewed version, or the built-in template, into the editor.
+    useEffect(() => {
+        const viewed = versions.find(version => version.id === viewedVersionId);
+        setDraftSystem(viewed ? viewed.systemInstruction : defaultSystem);
+        setDraftUser(viewed ? viewed.userPrompt : '');
+        setDraftName('');
+    }, [promptKey, viewedVersionId]);
+
+    const systemDiff = useMemo(() => diffBlocks(defaultSystem.split('\n'), draftSystem.split('\n')), [defaultSystem, draftSystem]);
+    const userDiff = useMemo(() => draftUser.trim() ? diffBlocks(defaultUser.split('\n'), draftUser.trim().split('\n')) : [], [defaultUser, draftUser]);
+    const changedLines = [...systemDiff, ...userDiff].filter(part => part.type !== 'same').length;
+
+    const handleSelectStage = (key: PromptKey) => {
+        setPromptKey(key);
+        setViewedVersionId(promptOverrideStore.getActive(key)?.id || null);
+    };
+
+    const handleSave = () => {
+        const saved = promptOverrideStore.addVersion(promptKey, {
+            name: draftName.trim() || `Version ${versions.length + 1}`,
+            systemInstruction: draftSystem,
+            userPrompt: draftUser,
+        });
+        setViewedVersionId(saved.id);
+    };
+
+    const handleDelete = () => {
+        if (!viewedVersionId) return;
+        promptOverrideStore.deleteVersion(promptKey, viewedVersionId);
+        setViewedVersionId(null);
+    };
+
+    const renderDiff = (parts: DiffPart[]) => (
+        <div className="prompt-diff">
+            {parts.map((part, i) => (
+                <div key={i} className={`diff-line diff-${part.type}`}>{part.type === 'added' ? '+ ' : part.type === 'removed' ? '- ' : '  '}{part.text}</div>
+            ))}
+        </div>
+    );
+
+    return (
+        <div className="prompt-template-editor">
+            <div className="content-profile-header">
+                <select value={promptKey} onChange={e => handleSelectStage(e.target.value as PromptKey)} aria-label="Prompt template">
+                    {PROMPT_STAGES.map(({ key, label }) => (
+                        <option key={key} value={key}>{label}{promptOverrideStore.getActive(key) ? ` (${promptOverrideStore.getActive(key)!.name})` : ''}</option>
+                    ))}
+                </select>
+                <select value={viewedVersionId || ''} onChange={e => setViewedVersionId(e.target.value || null)} aria-label="Template version">
+                    <option value="">Built-in template{activeVersion ? '' : ' (active)'}</option>
+                    {versions.map(version => (
+                        <option key={version.id} value={version.id}>
+                            {version.name} · {new Date(version.createdAt).toLocaleString()}{version.id === activeVersion?.id ? ' (active)' : ''}
+                        </option>
+                    ))}
+                </select>
+                <button className="btn btn-small" onClick={() => promptOverrideStore.activate(promptKey, viewedVersionId)} disabled={disabled || (viewedVersionId || null) === (activeVersion?.id || null)}>
+                    {viewedVersionId ? 'Use This Version' : 'Use Built-in'}
+                </button>
+                <button className="btn btn-small btn-secondary" onClick={handleDelete} disabled={disabled || !viewedVersionId}>Delete</button>
+            </div>
+            <div className="form-group">
+                <label htmlFor="promptSystemInstruction">System instruction</label>
+                <textarea id="promptSystemInstruction" rows={12} value={draftSystem} onChange={e => setDraftSystem(e.target.value)} spellCheck={false} />
+                <p className="help-text">Tokens such as <code>{'{{VOICE_INSTRUCTIONS}}'}</code>, <code>{'{{FAQ_COUNT}}'}</code> and <code>{'{{SECTION_MIN_WORDS}}'}</code> are filled from the brand voice and content profile.</p>
+            </div>
+            <div className="form-group">
+                <label htmlFor="promptUserPattern">User prompt pattern</label>
+                <textarea id="promptUserPattern" rows={6} value={draftUser} onChange={e => setDraftUser(e.target.value)} placeholder={`Empty keeps the built-in user prompt:\n\n${defaultUser}`} spellCheck={false} />
+                <p className="help-text">
+                    Variables: {PROMPT_VARIABLES[promptKey].map(({ name }) => <code key={name}>{`{{${name}}}`}</code>).reduce<React.ReactNode[]>((list, code) => list.length ? [...list, ', ', code] : [code], [])}.
+                    Lists are inserted as JSON. {'sharedContext' in PROMPT_TEMPLATES[promptKey] && 'The shared article context is still sent before this prompt.'}
+                </p>
+                {draftUser.trim() && getMissingBlockVariables(draftUser, promptKey).length > 0 && (
+                    <p className="help-text">
+                        This pattern leaves out {getMissingBlockVariables(draftUser, promptKey).map(name => <code key={name}>{`{{${name}}}`}</code>).reduce<React.ReactNode[]>((list, code) => list.length ? [...list, ' and ', code] : [code], [])}, so
+                        the built-in text for them is added at the end. Place the variables yourself to control where it goes.
+                    </p>
+                )}
+                {!draftUser.trim() && <button className="btn btn-small btn-secondary" onClick={() => setDraftUser(defaultUser)}>Start From Built-in Prompt</button>}
+            </div>
+            <h4 className="prompt-diff-heading">Changes from the built-in template ({changedLines} line{changedLines === 1 ? '' : 's'})</h4>
+            {changedLines === 0 ? <p className="help-text">No changes.</p> : (
+                <>
+                    {systemDiff.some(part => part.type !== 'same') && renderDiff(systemDiff.filter((part, i) => part.type !== 'same' || systemDiff[i - 1]?.type !== 'same' || systemDiff[i + 1]?.type !== 'same'))}
+                    {userDiff.some(part => part.type !== 'same') && renderDiff(userDiff)}
+                </>
+            )}
+            <div className="content-profile-header" style={{ marginTop: '1rem', marginBottom: 0 }}>
+                <input type="text" value={draftName} onChange={e => setDraftName(e.target.value)} placeholder={`Version ${versions.length + 1}`} aria-label="Version name" />
+                <button className="btn btn-small" onClick={handleSave} disabled={changedLines === 0}>Save as New Version</button>
+            </div>
+        </div>
+    );
+};
+
+
 // --- Main App Component ---
 const App = () => {
     const [currentStep, setCurrentStep] = useState(1);
@@ -1945,18 +4949,65 @@ const App = () => {
     // Step 1: API Keys & Config
     const [apiKeys, setApiKeys] = useState(() => {
         const saved = localStorage.getItem('apiKeys');
-        return saved ? JSON.parse(saved) : { geminiApiKey: '', openaiApiKey: '', anthropicApiKey: '', openrouterApiKey: '', serperApiKey: '', groqApiKey: '' };
+        return saved ? JSON.parse(saved) : { geminiApiKey: '', openaiApiKey: '', anthropicApiKey: '', openrouterApiKey: '', serperApiKey: '', groqApiKey: '', localApiKey: '' };
     });
-    const [apiKeyStatus, setApiKeyStatus] = useState({ gemini: 'idle', openai: 'idle', anthropic: 'idle', openrouter: 'idle', serper: 'idle', groq: 'idle' } as Record<string, 'idle' | 'validating' | 'valid' | 'invalid'>);
+    const [apiKeyStatus, setApiKeyStatus] = useState({ gemini: 'idle', openai: 'idle', anthropic: 'idle', openrouter: 'idle', serper: 'idle', groq: 'idle', local: 'idle' } as Record<string, 'idle' | 'validating' | 'valid' | 'invalid'>);
     const [editingApiKey, setEditingApiKey] = useState<string | null>(null);
-    const [apiClients, setApiClients] = useState<{ gemini: GoogleGenAI | null, openai: OpenAI | null, anthropic: Anthropic | null, openrouter: OpenAI | null, groq: OpenAI | null }>({ gemini: null, openai: null, anthropic: null, openrouter: null, groq: null });
-    const [selectedModel, setSelectedModel] = useState(() => localStorage.getItem('selectedModel') || 'gemini');
+    const [apiClients, setApiClients] = useState<ProviderClients>({ gemini: null, openai: null, anthropic: null, openrouter: null, groq: null, local: null });
+    const [selectedModel, setSelectedModel] = useState(() => (localStorage.getItem('selectedModel') as AiProvider) || 'gemini');
     const [selectedGroqModel, setSelectedGroqModel] = useState(() => localStorage.getItem('selectedGroqModel') || AI_MODELS.GROQ_MODELS[0]);
     const [openrouterModels, setOpenrouterModels] = useState<string[]>(AI_MODELS.OPENROUTER_DEFAULT);
+    // Models each provider reported after its key validated, cached across sessions.
+    const [modelCatalog, setModelCatalog] = useState<Partial<Record<AiProvider, ModelInfo[]>>>(() => {
+        const saved = localStorage.getItem('modelCatalog');
+        return saved ? JSON.parse(saved) : {};
+    });
+    const [stageRouting, setStageRouting] = useState<StageRouting>(() => {
+        const saved = localStorage.getItem('stageRouting');
+        return { ...createDefaultStageRouting(), ...(saved ? JSON.parse(saved) : {}) };
+    });
+    const [failoverChain, setFailoverChain] = useState<AiProvider[]>(() => {
+        const saved = localStorage.getItem('failoverChain');
+        return saved ? JSON.parse(saved) : [];
+    });
+    const [rateLimits, setRateLimits] = useState<Record<string, RateLimit>>(() => {
+        const saved = localStorage.getItem('rateLimits');
+        return { ...DEFAULT_RATE_LIMITS, ...(saved ? JSON.parse(saved) : {}) };
+    });
+    const [rateLimiterStats, setRateLimiterStats] = useState<Record<string, RateLimiterStats>>({});
+    const [contentProfiles, setContentProfiles] = useState<ContentProfile[]>(() => {
+        const saved = localStorage.getItem('contentProfiles');
+        return saved ? JSON.parse(saved) : DEFAULT_CONTENT_PROFILES;
+    });
+    const [profileAssignments, setProfileAssignments] = useState<ProfileAssignments>(() => {
+        const saved = localStorage.getItem('profileAssignments');
+        return { ...DEFAULT_PROFILE_ASSIGNMENTS, ...(saved ? JSON.parse(saved) : {}) };
+    });
+    const [voiceProfiles, setVoiceProfiles] = useState<VoiceProfile[]>(() => {
+        const saved = localStorage.getItem('voiceProfiles');
+        return saved ? JSON.parse(saved) : DEFAULT_VOICE_PROFILES;
+    });
+    const [siteVoiceIds, setSiteVoiceIds] = useState<SiteVoiceAssignments>(() => {
+        const saved = localStorage.getItem('siteVoiceIds');
+        // Before voices were chosen per site there was one global choice, which becomes the fallback.
+        return saved ? JSON.parse(saved) : { '': localStorage.getItem('activeVoiceId') || DEFAULT_VOICE_PROFILE.id };
+    });
+    const [fixtureMode, setFixtureMode] = useState<FixtureMode>(fixtureStore.mode);
+    const [fixtureCount, setFixtureCount] = useState(fixtureStore.size);
+    const [fixtureMessage, setFixtureMessage] = useState('');
+    const [localModelConfig, setLocalModelConfig] = useState(() => {
+        const saved = localStorage.getItem('localModelConfig');
+        return saved ? JSON.parse(saved) : { baseUrl: '', model: AI_MODELS.LOCAL_DEFAULT };
+    });
+    const providerAdapters = useMemo(
+        () => createProviderAdapters(apiClients, { openrouterModels, groqModel: selectedGroqModel, localModel: localModelConfig.model }),
+        [apiClients, openrouterModels, selectedGroqModel, localModelConfig.model]
+    );
     const [geoTargeting, setGeoTargeting] = useState(() => {
         const saved = localStorage.getItem('geoTargeting');
         return saved ? JSON.parse(saved) : { enabled: false, location: '' };
     });
+    const [contentLanguage, setContentLanguage] = useState<ContentLanguage>(() => (localStorage.getItem('contentLanguage') as ContentLanguage) || 'en');
     const [useGoogleSearch, setUseGoogleSearch] = useState(false);
 
 
@@ -1990,12 +5041,20 @@ const App = () => {
     const [items, dispatch] = useReducer(itemsReducer, []);
     const [isGenerating, setIsGenerating] = useState(false);
     const [generationProgress, setGenerationProgress] = useState({ current: 0, total: 0 });
+    const [budgetCap, setBudgetCap] = useState(() => Number(localStorage.getItem('budgetCap')) || 0); // USD per batch, 0 = unlimited
+    const [batchCost, setBatchCost] = useState<CostSummary>(createEmptyCostSummary); // The current or last generation run only
+    const [batchApiMode, setBatchApiMode] = useState(() => localStorage.getItem('batchApiMode') === 'true');
+    const [pauseAfterOutline, setPauseAfterOutline] = useState(() => localStorage.getItem('pauseAfterOutline') === 'true');
+    const [sectionConcurrency, setSectionConcurrency] = useState(() => Number(localStorage.getItem('sectionConcurrency')) || DEFAULT_SECTION_CONCURRENCY);
     const [selectedItems, setSelectedItems] = useState(new Set<string>());
     const [filter, setFilter] = useState('');
     const [sortConfig, setSortConfig] = useState({ key: 'title', direction: 'asc' });
     const [selectedItemForReview, setSelectedItemForReview] = useState<ContentItem | null>(null);
+    const [outlineReviewItem, setOutlineReviewItem] = useState<ContentItem | null>(null);
     const [isBulkPublishModalOpen, setIsBulkPublishModalOpen] = useState(false);
     const stopGenerationRef = useRef(new Set<string>());
+    const stopAllRef = useRef(false); // Stop All ends the run; stopping one item only skips that item
+    const abortControllersRef = useRef(new Map<string, AbortController>()); // In-flight requests per item, aborted on Stop
     const isMobile = useMemo(() => window.innerWidth <= 767, []);
     
     // Content Hub State
@@ -2009,15 +5068,51 @@ const App = () => {
     // Web Worker
     const workerRef = useRef<Worker | null>(null);
 
+    // Mirror the shared rate limiters' queues into state. Wait times grow without any queue event,
+    // so the stats are also refreshed once a second while anything is queued.
+    useEffect(() => {
+        const update = () => setRateLimiterStats(rateLimiters.getStats());
+        const unsubscribe = rateLimiters.subscribe(update);
+        const intervalId = setInterval(() => {
+            if (Object.values(rateLimiters.getStats()).some(stats => stats.queueDepth > 0)) update();
+        }, 1000);
+        return () => {
+            unsubscribe();
+            clearInterval(intervalId);
+        };
+    }, []);
+
     // --- Effects ---
     
     // Persist settings to localStorage
     useEffect(() => { localStorage.setItem('apiKeys', JSON.stringify(apiKeys)); }, [apiKeys]);
     useEffect(() => { localStorage.setItem('selectedModel', selectedModel); }, [selectedModel]);
     useEffect(() => { localStorage.setItem('selectedGroqModel', selectedGroqModel); }, [selectedGroqModel]);
+    useEffect(() => { localStorage.setItem('stageRouting', JSON.stringify(stageRouting)); }, [stageRouting]);
+    useEffect(() => { localStorage.setItem('failoverChain', JSON.stringify(failoverChain)); }, [failoverChain]);
+    useEffect(() => { localStorage.setItem('modelCatalog', JSON.stringify(modelCatalog)); }, [modelCatalog]);
+    useEffect(() => { localStorage.setItem('contentProfiles', JSON.stringify(contentProfiles)); }, [contentProfiles]);
+    useEffect(() => { localStorage.setItem('profileAssignments', JSON.stringify(profileAssignments)); }, [profileAssignments]);
+    useEffect(() => { localStorage.setItem('voiceProfiles', JSON.stringify(voiceProfiles)); }, [voiceProfiles]);
+    useEffect(() => { localStorage.setItem('siteVoiceIds', JSON.stringify(siteVoiceIds)); }, [siteVoiceIds]);
+    useEffect(() => { fixtureStore.mode = fixtureMode; }, [fixtureMode]);
+    useEffect(() => fixtureStore.subscribe(() => setFixtureCount(fixtureStore.size)), []);
+    // Checkpoints live outside React state; re-render when one appears or goes away.
+    const [, setCheckpointVersion] = useState(0);
+    useEffect(() => checkpointStore.subscribe(() => setCheckpointVersion(v => v + 1)), []);
+    useEffect(() => {
+        rateLimiters.configure(rateLimits);
+        localStorage.setItem('rateLimits', JSON.stringify(rateLimits));
+    }, [rateLimits]);
     useEffect(() => { localStorage.setItem('wpConfig', JSON.stringify(wpConfig)); }, [wpConfig]);
     useEffect(() => { localStorage.setItem('wpPassword', wpPassword); }, [wpPassword]);
     useEffect(() => { localStorage.setItem('geoTargeting', JSON.stringify(geoTargeting)); }, [geoTargeting]);
+    useEffect(() => { localStorage.setItem('contentLanguage', contentLanguage); }, [contentLanguage]);
+    useEffect(() => { localStorage.setItem('localModelConfig', JSON.stringify(localModelConfig)); }, [localModelConfig]);
+    useEffect(() => { localStorage.setItem('budgetCap', String(budgetCap)); }, [budgetCap]);
+    useEffect(() => { localStorage.setItem('batchApiMode', String(batchApiMode)); }, [batchApiMode]);
+    useEffect(() => { localStorage.setItem('sectionConcurrency', String(sectionConcurrency)); }, [sectionConcurrency]);
+    useEffect(() => { localStorage.setItem('pauseAfterOutline', String(pauseAfterOutline)); }, [pauseAfterOutline]);
 
 
     // Initialize Web Worker
@@ -2214,8 +5309,9 @@ const App = () => {
         return filtered;
     }, [existingPages, hubSearchFilter, hubStatusFilter, hubSortConfig]);
 
-    const validateApiKey = useCallback(debounce(async (provider: string, key: string) => {
-        if (!key) {
+    const validateApiKey = useCallback(debounce(async (provider: string, key: string, baseUrl?: string) => {
+        // The local provider is identified by its endpoint; its key is optional.
+        if (provider === 'local' ? !baseUrl : !key) {
             setApiKeyStatus(prev => ({ ...prev, [provider]: 'idle' }));
             setApiClients(prev => ({ ...prev, [provider]: null }));
             return;
@@ -2224,76 +5320,32 @@ const App = () => {
         setApiKeyStatus(prev => ({ ...prev, [provider]: 'validating' }));
 
         try {
-            let client;
+            let client: GoogleGenAI | OpenAI | Anthropic | null = null;
             let isValid = false;
-            switch (provider) {
-                case 'gemini':
-                    client = new GoogleGenAI({ apiKey: key });
-                    await callAiWithRetry(() =>
-                        (client as GoogleGenAI).models.generateContent({ model: AI_MODELS.GEMINI_FLASH, contents: 'test' })
-                    );
-                    isValid = true;
-                    break;
-                case 'openai':
-                    client = new OpenAI({ apiKey: key, dangerouslyAllowBrowser: true });
-                    await callAiWithRetry(() => client.models.list());
-                    isValid = true;
-                    break;
-                case 'anthropic':
-                    client = new Anthropic({ apiKey: key });
-                    await callAiWithRetry(() => client.messages.create({
-                        model: AI_MODELS.ANTHROPIC_HAIKU,
-                        max_tokens: 1,
-                        messages: [{ role: "user", content: "test" }],
-                    }));
-                    isValid = true;
-                    break;
-                 case 'openrouter':
-                    client = new OpenAI({
-                        baseURL: "https://openrouter.ai/api/v1",
-                        apiKey: key,
-                        dangerouslyAllowBrowser: true,
-                        defaultHeaders: {
-                            'HTTP-Referer': window.location.href,
-                            'X-Title': 'WP Content Optimizer Pro',
-                        }
-                    });
-                    await callAiWithRetry(() => client.chat.completions.create({
-                        model: 'google/gemini-2.5-flash',
-                        messages: [{ role: "user", content: "test" }],
-                        max_tokens: 1
-                    }));
-                    isValid = true;
-                    break;
-                case 'groq':
-                    client = new OpenAI({
-                        baseURL: "https://api.groq.com/openai/v1",
-                        apiKey: key,
-                        dangerouslyAllowBrowser: true,
-                    });
-                    await callAiWithRetry(() => (client as OpenAI).chat.completions.create({
-                        model: AI_MODELS.GROQ_MODELS[1], // Use a small model for testing
-                        messages: [{ role: "user", content: "test" }],
-                        max_tokens: 1
-                    }));
+            if (provider === 'serper') {
+                const serperResponse = await rateLimiters.get('serper').run(0, () => fetchWithProxies("https://google.serper.dev/search", {
+                    method: 'POST',
+                    headers: {
+                        'X-API-KEY': key,
+                        'Content-Type': 'application/json'
+                    },
+                    body: JSON.stringify({ q: 'test' })
+                }));
+                if (serperResponse.ok) {
                     isValid = true;
-                    break;
-                 case 'serper':
-                    const serperResponse = await fetchWithProxies("https://google.serper.dev/search", {
-                        method: 'POST',
-                        headers: {
-                            'X-API-KEY': key,
-                            'Content-Type': 'application/json'
-                        },
-                        body: JSON.stringify({ q: 'test' })
-                    });
-                    if (serperResponse.ok) {
-                        isValid = true;
-                    } else {
-                        const errorBody = await serperResponse.json().catch(() => ({ message: `Serper validation failed with status ${serperResponse.status}` }));
-                        throw new Error(errorBody.message || `Serper validation failed with status ${serperResponse.status}`);
-                    }
-                    break;
+                } else {
+                    const errorBody = await serperResponse.json().catch(() => ({ message: `Serper validation failed with status ${serperResponse.status}` }));
+                    throw new Error(errorBody.message || `Serper validation failed with status ${serperResponse.status}`);
+                }
+            } else {
+                client = createProviderClient(provider as AiProvider, key, baseUrl);
+                const adapter = createProviderAdapter(provider as AiProvider, client, DEFAULT_PROVIDER_SETTINGS);
+                await adapter.validateKey();
+                isValid = true;
+                // Discovery is best-effort; a failure keeps the previously cached list.
+                adapter.listModels()
+                    .then(models => setModelCatalog(prev => ({ ...prev, [provider]: models.sort((a, b) => a.id.localeCompare(b.id)) })))
+                    .catch(error => console.warn(`Could not list ${provider} models.`, error));
             }
 
             if (isValid) {
@@ -2314,17 +5366,129 @@ const App = () => {
     
      useEffect(() => {
         Object.entries(apiKeys).forEach(([key, value]) => {
-            if (value) {
+            if (value && key !== 'localApiKey') {
                 validateApiKey(key.replace('ApiKey', ''), value);
             }
         });
+        if (localModelConfig.baseUrl) {
+            validateApiKey('local', apiKeys.localApiKey || '', localModelConfig.baseUrl);
+        }
     }, []); // Run only on initial mount to validate saved keys
 
     const handleApiKeyChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
         const { name, value } = e.target;
         const provider = name.replace('ApiKey', '');
         setApiKeys(prev => ({ ...prev, [name]: value }));
-        validateApiKey(provider, value);
+        validateApiKey(provider, value, provider === 'local' ? localModelConfig.baseUrl : undefined);
+    };
+
+    const handleStageRouteChange = (promptKey: PromptKey, changes: Partial<StageRoute>) => {
+        setStageRouting(prev => ({ ...prev, [promptKey]: { ...prev[promptKey], ...changes } }));
+    };
+
+    const handleContentProfileChange = (profileId: string, changes: Partial<ContentProfile>) => {
+        setContentProfiles(prev => prev.map(profile => profile.id === profileId ? { ...profile, ...changes } : profile));
+    };
+
+    const handleDuplicateContentProfile = (source: ContentProfile) => {
+        const id = `profile-${Date.now().toString(36)}`;
+        setContentProfiles(prev => [...prev, { ...source, id, name: `${source.name} (copy)` }]);
+    };
+
+    /** Deletes a profile. Item types assigned to it move to the first remaining profile. */
+    const handleDeleteContentProfile = (profileId: string) => {
+        const remaining = contentProfiles.filter(profile => profile.id !== profileId);
+        if (remaining.length === 0) return;
+        setContentProfiles(remaining);
+        setProfileAssignments(prev => Object.fromEntries(
+            Object.entries(prev).map(([itemType, assignedId]) => [itemType, assignedId === profileId ? remaining[0].id : assignedId])
+        ) as ProfileAssignments);
+    };
+
+    const handleResetContentProfiles = () => {
+        setContentProfiles(DEFAULT_CONTENT_PROFILES);
+        setProfileAssignments(DEFAULT_PROFILE_ASSIGNMENTS);
+    };
+
+    // The voice being edited is the connected site's. Each item is written in the voice of the site it
+    // came from, or the connected site's when it is new.
+    const currentSiteKey = getSiteKey(wpConfig.url);
+    const activeVoice = resolveVoiceProfile(voiceProfiles, siteVoiceIds, currentSiteKey);
+    const setActiveVoiceId = (id: string) => setSiteVoiceIds(prev => ({ ...prev, [currentSiteKey]: id }));
+    const getItemVoice = useCallback(
+        (item: ContentItem) => resolveVoiceProfile(voiceProfiles, siteVoiceIds, getSiteKey(item.originalUrl) || currentSiteKey),
+        [voiceProfiles, siteVoiceIds, currentSiteKey]
+    );
+    const reviewBannedTerms = useMemo(
+        () => selectedItemForReview ? cleanTermList(getItemVoice(selectedItemForReview).bannedTerms) : [],
+        [selectedItemForReview, getItemVoice]
+    );
+
+    const handleVoiceProfileChange = (changes: Partial<VoiceProfile>) => {
+        setVoiceProfiles(prev => prev.map(voice => voice.id === activeVoice.id ? { ...voice, ...changes } : voice));
+    };
+
+    const handleDuplicateVoiceProfile = () => {
+        const id = `voice-${Date.now().toString(36)}`;
+        setVoiceProfiles(prev => [...prev, { ...activeVoice, id, name: `${activeVoice.name} (copy)` }]);
+        setActiveVoiceId(id);
+    };
+
+    const handleDeleteVoiceProfile = () => {
+        const remaining = voiceProfiles.filter(voice => voice.id !== activeVoice.id);
+        if (remaining.length === 0) return;
+        setVoiceProfiles(remaining);
+        setActiveVoiceId(remaining[0].id);
+    };
+
+    const handleToggleFailoverProvider = (provider: AiProvider, enabled: boolean) => {
+        setFailoverChain(prev => enabled ? [...prev.filter(p => p !== provider), provider] : prev.filter(p => p !== provider));
+    };
+
+    const handleMoveFailoverProvider = (provider: AiProvider, direction: -1 | 1) => {
+        setFailoverChain(prev => {
+            const index = prev.indexOf(provider);
+            const target = index + direction;
+            if (index === -1 || target < 0 || target >= prev.length) return prev;
+            const next = [...prev];
+            [next[index], next[target]] = [next[target], next[index]];
+            return next;
+        });
+    };
+
+    const handleRateLimitChange = (service: string, field: keyof RateLimit, value: string) => {
+        setRateLimits(prev => ({ ...prev, [service]: { ...prev[service], [field]: Math.max(0, parseInt(value, 10) || 0) } }));
+    };
+
+    const handleDownloadFixtures = () => {
+        const blob = new Blob([JSON.stringify(fixtureStore.toFile(), null, 2)], { type: 'application/json' });
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(blob);
+        link.download = `content-optimizer-fixtures-${new Date().toISOString().slice(0, 10)}.json`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(link.href);
+    };
+
+    const handleLoadFixtures = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            fixtureStore.load(JSON.parse(await file.text()));
+            setFixtureMessage(`Loaded ${fixtureStore.size} fixtures from ${file.name}.`);
+        } catch (error: any) {
+            setFixtureMessage(`Could not load ${file.name}: ${error.message}`);
+        }
+    };
+
+    const handleLocalModelConfigChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+        const { name, value } = e.target;
+        setLocalModelConfig(prev => ({ ...prev, [name]: value }));
+        if (name === 'baseUrl') {
+            validateApiKey('local', apiKeys.localApiKey || '', value);
+        }
     };
     
     const handleOpenrouterModelsChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
@@ -2343,6 +5507,36 @@ const App = () => {
         setHubSortConfig({ key, direction });
     };
 
+    const callAI = useCallback(async (
+        promptKey: PromptKey,
+        promptArgs: any[],
+        responseFormat: 'json' | 'html' = 'json',
+        options: AiCallOptions = {}
+    ): Promise<string> => {
+        const routes = buildFailoverRoutes(resolveStageRoute(stageRouting, promptKey, selectedModel), failoverChain);
+        const geoLocation = geoTargeting.enabled ? geoTargeting.location : null;
+        const reportUsage = (response: AiTextResponse, outcome = '') => {
+            const usage = priceTextResponse(response);
+            console.log(`[Usage] '${promptKey}' via ${response.provider}/${response.model}${outcome}: ${usage.promptTokens} in (${usage.cachedTokens} cached) / ${usage.completionTokens} out (${formatCost(usage.cost)})`);
+            if (fixtureStore.mode !== 'replay') options.onUsage?.(usage); // Replayed responses cost nothing.
+        };
+        // Fixtures are keyed by the rendered prompt, so any change to a template, voice or profile text
+        // misses instead of replaying stale output. It is rendered before fitting to a model's window,
+        // so the key doesn't depend on which provider ends up serving the stage.
+        const rendered = preparePromptStage(promptKey, promptArgs, Number.POSITIVE_INFINITY, geoLocation, options.profile, options.voice, options.language);
+        const promptHash = hashString(rendered.systemInstruction + (rendered.cacheablePrefix || '') + rendered.userPrompt);
+        const promptVersion = promptOverrideStore.activeVersionId(promptKey);
+        const response = await fixtureStore.intercept(`ai:${promptKey}`, { promptHash, responseFormat, promptVersion }, () =>
+            runPromptStageWithFailover(providerAdapters, routes, promptKey, promptArgs, responseFormat, {
+                geoLocation, profile: options.profile, voice: options.voice, language: options.language, modelCatalog, signal: options.signal,
+                onBilledFailure: (billed) => reportUsage(billed, ' (failed)'),
+            })
+        );
+        reportUsage(response);
+        options.onResponse?.({ provider: response.provider, model: response.model, trimmedInputs: response.trimmedInputs || [], promptVersion: promptOverrideStore.activeVersionName(promptKey) });
+        return response.text;
+    }, [providerAdapters, selectedModel, stageRouting, failoverChain, geoTargeting, modelCatalog]);
+
     const stopHealthAnalysisRef = useRef(false);
     const handleStopHealthAnalysis = () => {
         stopHealthAnalysisRef.current = true;
@@ -2355,8 +5549,7 @@ const App = () => {
             return;
         }
 
-        const client = apiClients[selectedModel as keyof typeof apiClients];
-        if (!client) {
+        if (!providerAdapters[resolveStageRoute(stageRouting, 'content_health_analyzer', selectedModel).provider]) {
             alert("API client not available. Please check your API key in Step 1.");
             return;
         }
@@ -2414,86 +5607,10 @@ const App = () => {
                             throw new Error("Content is too thin for analysis.");
                         }
 
-                        const template = PROMPT_TEMPLATES.content_health_analyzer;
-                        const contentSnippet = bodyText.substring(0, 12000); // Use a generous snippet
-                        const userPrompt = template.userPrompt(contentSnippet);
-
-                        let responseText: string | null = '';
-                        switch (selectedModel) {
-                            case 'gemini':
-                                const geminiClient = apiClients.gemini;
-                                if (!geminiClient) throw new Error("Gemini client not initialized");
-                                const geminiResponse = await callAiWithRetry(() => geminiClient.models.generateContent({
-                                    model: AI_MODELS.GEMINI_FLASH,
-                                    contents: userPrompt,
-                                    config: { systemInstruction: template.systemInstruction, responseMimeType: "application/json" }
-                                }));
-                                responseText = geminiResponse.text;
-                                break;
-                            case 'openai':
-                                const openaiClient = apiClients.openai;
-                                if (!openaiClient) throw new Error("OpenAI client not initialized");
-                                const openaiResponse = await callAiWithRetry(() => openaiClient.chat.completions.create({
-                                    model: AI_MODELS.OPENAI_GPT4_TURBO,
-                                    messages: [{ role: "system", content: template.systemInstruction }, { role: "user", content: userPrompt }],
-                                    response_format: { type: "json_object" },
-                                }));
-                                responseText = openaiResponse.choices[0].message.content ?? '';
-                                break;
-                            case 'openrouter':
-                                let openrouterResponseText: string | null = '';
-                                let lastError: Error | null = null;
-                                const openrouterClient = apiClients.openrouter;
-                                if (!openrouterClient) throw new Error("OpenRouter client not initialized");
-                                for (const modelName of openrouterModels) {
-                                    try {
-                                        console.log(`[OpenRouter] Attempting health analysis with model: ${modelName}`);
-                                        const response = await callAiWithRetry(() => openrouterClient.chat.completions.create({
-                                            model: modelName,
-                                            messages: [{ role: "system", content: template.systemInstruction }, { role: "user", content: userPrompt }],
-                                            response_format: { type: "json_object" },
-                                        }));
-
-                                        const content = response.choices[0].message.content ?? '';
-                                        if (!content) throw new Error("Empty response from model.");
-
-                                        extractJson(content);
-
-                                        openrouterResponseText = content;
-                                        lastError = null;
-                                        break; // Success
-                                    } catch (error) {
-                                        console.error(`OpenRouter model '${modelName}' failed during health analysis. Trying next...`, error);
-                                        lastError = error as Error;
-                                    }
-                                }
-                                if (lastError && !openrouterResponseText) throw lastError;
-                                responseText = openrouterResponseText;
-                                break;
-                            case 'groq':
-                                const groqClient = apiClients.groq;
-                                if (!groqClient) throw new Error("Groq client not initialized");
-                                const groqResponse = await callAiWithRetry(() => groqClient.chat.completions.create({
-                                    model: selectedGroqModel,
-                                    messages: [{ role: "system", content: template.systemInstruction }, { role: "user", content: userPrompt }],
-                                    response_format: { type: "json_object" },
-                                }));
-                                responseText = groqResponse.choices[0].message.content ?? '';
-                                break;
-                            case 'anthropic':
-                                const anthropicClient = apiClients.anthropic;
-                                if (!anthropicClient) throw new Error("Anthropic client not initialized");
-                                const anthropicResponse = await callAiWithRetry(() => anthropicClient.messages.create({
-                                    model: AI_MODELS.ANTHROPIC_HAIKU,
-                                    max_tokens: 4096,
-                                    system: template.systemInstruction,
-                                    messages: [{ role: "user", content: userPrompt }],
-                                }));
-                                responseText = anthropicResponse.content.map(c => c.text).join("");
-                                break;
-                        }
+                        // The prompt budget trims the page to what the analyzing model can take.
+                        const responseText = await callAI('content_health_analyzer', [bodyText]);
 
-                        const parsedJson = JSON.parse(extractJson(responseText!));
+                        const parsedJson = JSON.parse(extractJson(responseText));
                         const { healthScore, updatePriority, justification } = parsedJson;
                         sessionStorage.setItem(cacheKey, JSON.stringify({ title, wordCount, crawledContent: bodyText, isStale, healthScore, updatePriority, justification }));
                         setExistingPages(prev => prev.map(p => p.id === page.id ? { ...p, healthScore, updatePriority, justification } : p));
@@ -2605,101 +5722,15 @@ const App = () => {
     const handleGenerateClusterPlan = async () => {
         setIsGenerating(true);
         dispatch({ type: 'SET_ITEMS', payload: [] });
-        const client = apiClients[selectedModel as keyof typeof apiClients];
-        if (!client) {
+        if (!providerAdapters[resolveStageRoute(stageRouting, 'cluster_planner', selectedModel).provider]) {
              dispatch({ type: 'UPDATE_STATUS', payload: { id: 'cluster-planner', status: 'error', statusText: 'API Client not initialized.' } });
              setIsGenerating(false);
             return;
         }
 
         try {
-            const template = PROMPT_TEMPLATES.cluster_planner;
-            let systemInstruction = template.systemInstruction;
-            if (geoTargeting.enabled && geoTargeting.location) {
-                systemInstruction = systemInstruction.replace('{{GEO_TARGET_INSTRUCTIONS}}', `All titles must be geo-targeted for "${geoTargeting.location}".`);
-            } else {
-                 systemInstruction = systemInstruction.replace('{{GEO_TARGET_INSTRUCTIONS}}', '');
-            }
-            
-            const userPrompt = template.userPrompt(topic);
-            let responseText: string | null = '';
-            
-             switch (selectedModel) {
-                case 'gemini':
-                    const geminiClient = apiClients.gemini;
-                    if (!geminiClient) throw new Error("Gemini client not initialized");
-                    const geminiResponse = await callAiWithRetry(() => geminiClient.models.generateContent({
-                        model: AI_MODELS.GEMINI_FLASH,
-                        contents: userPrompt,
-                        config: { systemInstruction, responseMimeType: "application/json" }
-                    }));
-                    responseText = geminiResponse.text;
-                    break;
-                case 'openai':
-                     const openaiClient = apiClients.openai;
-                    if (!openaiClient) throw new Error("OpenAI client not initialized");
-                    const openaiResponse = await callAiWithRetry(() => openaiClient.chat.completions.create({
-                        model: AI_MODELS.OPENAI_GPT4_TURBO,
-                        messages: [{ role: "system", content: systemInstruction }, { role: "user", content: userPrompt }],
-                        response_format: { type: "json_object" },
-                    }));
-                    responseText = openaiResponse.choices[0].message.content ?? '';
-                    break;
-                case 'openrouter':
-                    let openrouterResponseText: string | null = '';
-                    let lastError: Error | null = null;
-                    const openrouterClient = apiClients.openrouter;
-                    if (!openrouterClient) throw new Error("OpenRouter client not initialized");
-                    
-                    for (const modelName of openrouterModels) {
-                        try {
-                            console.log(`[OpenRouter] Attempting cluster plan with model: ${modelName}`);
-                            const response = await callAiWithRetry(() => openrouterClient.chat.completions.create({
-                                model: modelName,
-                                messages: [{ role: "system", content: systemInstruction }, { role: "user", content: userPrompt }],
-                                response_format: { type: "json_object" },
-                            }));
-                            
-                            const content = response.choices[0].message.content ?? '';
-                            if (!content) throw new Error("Empty response from model.");
-                            
-                            extractJson(content); 
-
-                            openrouterResponseText = content;
-                            lastError = null;
-                            break; // Success
-                        } catch (error) {
-                            console.error(`OpenRouter model '${modelName}' failed for cluster plan. Trying next...`, error);
-                            lastError = error as Error;
-                        }
-                    }
-                    if (lastError && !openrouterResponseText) throw lastError;
-                    responseText = openrouterResponseText;
-                    break;
-                 case 'groq':
-                    const groqClient = apiClients.groq;
-                    if (!groqClient) throw new Error("Groq client not initialized");
-                    const groqResponse = await callAiWithRetry(() => groqClient.chat.completions.create({
-                        model: selectedGroqModel,
-                        messages: [{ role: "system", content: systemInstruction }, { role: "user", content: userPrompt }],
-                        response_format: { type: "json_object" },
-                    }));
-                    responseText = groqResponse.choices[0].message.content ?? '';
-                    break;
-                 case 'anthropic':
-                    const anthropicClient = apiClients.anthropic;
-                    if (!anthropicClient) throw new Error("Anthropic client not initialized");
-                    const anthropicResponse = await callAiWithRetry(() => anthropicClient.messages.create({
-                        model: AI_MODELS.ANTHROPIC_OPUS,
-                        max_tokens: 4096,
-                        system: systemInstruction,
-                        messages: [{ role: "user", content: userPrompt }],
-                    }));
-                    responseText = anthropicResponse.content.map(c => c.text).join("");
-                    break;
-            }
-
-            const parsedJson = JSON.parse(extractJson(responseText!));
+            const responseText = await callAI('cluster_planner', [topic], 'json', { language: contentLanguage });
+            const parsedJson = JSON.parse(extractJson(responseText));
             const newItems: Partial<ContentItem>[] = [
                 { id: parsedJson.pillarTitle, title: parsedJson.pillarTitle, type: 'pillar' },
                 ...parsedJson.clusterTitles.map((title: string) => ({ id: title, title, type: 'cluster' }))
@@ -2728,8 +5759,8 @@ const App = () => {
 
     // --- Image Generation Logic ---
     const handleGenerateImages = async () => {
-        const geminiClient = apiClients.gemini;
-        if (!geminiClient || apiKeyStatus.gemini !== 'valid') {
+        const geminiAdapter = providerAdapters.gemini;
+        if (!geminiAdapter?.generateImages || apiKeyStatus.gemini !== 'valid') {
             setImageGenerationError('Please enter a valid Gemini API key in Step 1 to generate images.');
             return;
         }
@@ -2743,19 +5774,12 @@ const App = () => {
         setImageGenerationError('');
 
         try {
-            const geminiResponse = await callAiWithRetry(() => geminiClient.models.generateImages({
-                model: AI_MODELS.GEMINI_IMAGEN,
+            const { images } = await geminiAdapter.generateImages({
                 prompt: imagePrompt,
-                config: {
-                    numberOfImages: numImages,
-                    outputMimeType: 'image/jpeg',
-                    aspectRatio: aspectRatio as "1:1" | "16:9" | "9:16" | "4:3" | "3:4",
-                },
-            }));
-            const imagesData = geminiResponse.generatedImages.map(img => ({
-                src: `data:image/jpeg;base64,${img.image.imageBytes}`,
-                prompt: imagePrompt
-            }));
+                numberOfImages: numImages,
+                aspectRatio: aspectRatio as AiImageRequest['aspectRatio'],
+            });
+            const imagesData = images.map(src => ({ src, prompt: imagePrompt }));
             
             setGeneratedImages(imagesData);
 
@@ -2834,394 +5858,747 @@ const App = () => {
         setSortConfig({ key, direction });
     };
 
+    /**
+     * Generates or continues one item, always interactively: a single item, such as one whose outline
+     * was just approved, would only pay the batch API's latency for no benefit.
+     */
     const handleGenerateSingle = (item: ContentItem) => {
         stopGenerationRef.current.delete(item.id);
         setIsGenerating(true);
         setGenerationProgress({ current: 0, total: 1 });
-        generateContent([item]);
+        generateContent([item], { useBatchApi: false });
     };
 
     const handleGenerateSelected = () => {
         stopGenerationRef.current.clear();
         const itemsToGenerate = items.filter(item => selectedItems.has(item.id));
         if (itemsToGenerate.length > 0) {
+            if (batchApiMode) {
+                const unsupported = BATCH_STAGES.map(key => resolveStageRoute(stageRouting, key, selectedModel).provider).find(provider => !providerAdapters[provider]?.submitBatch);
+                if (unsupported) {
+                    alert(`Batch API mode needs OpenAI, Anthropic or Custom / Local (with a validated key) for the section and FAQ stages, but '${unsupported}' is routed there. Change the routing in Step 1 or turn batch mode off.`);
+                    return;
+                }
+                if (fixtureStore.mode !== 'off') {
+                    alert("Batch API mode can't be combined with Record & Replay. Turn one of them off.");
+                    return;
+                }
+            }
             setIsGenerating(true);
             setGenerationProgress({ current: 0, total: itemsToGenerate.length });
-            generateContent(itemsToGenerate);
+            generateContent(itemsToGenerate, { useBatchApi: batchApiMode });
         }
     };
     
      const handleStopGeneration = (itemId: string | null = null) => {
         if (itemId) {
             stopGenerationRef.current.add(itemId);
+            abortControllersRef.current.get(itemId)?.abort();
              dispatch({
                 type: 'UPDATE_STATUS',
                 payload: { id: itemId, status: 'idle', statusText: 'Stopped by user' }
             });
         } else {
             // Stop all
+            stopAllRef.current = true;
             items.forEach(item => {
                 if (item.status === 'generating') {
                     stopGenerationRef.current.add(item.id);
+                    abortControllersRef.current.get(item.id)?.abort();
                      dispatch({
-                        type: 'UPDATE_STATUS',
-                        payload: { id: item.id, status: 'idle', statusText: 'Stopped by user' }
-                    });
-                }
-            });
-            setIsGenerating(false);
-        }
-    };
-
-    const generateImageWithFallback = async (prompt: string): Promise<string | null> => {
-        // Priority 1: OpenAI DALL-E 3
-        if (apiClients.openai && apiKeyStatus.openai === 'valid') {
-            try {
-                console.log("Attempting image generation with OpenAI DALL-E 3...");
-                const openaiImgResponse = await callAiWithRetry(() => apiClients.openai!.images.generate({ model: AI_MODELS.OPENAI_DALLE3, prompt, n: 1, size: '1792x1024', response_format: 'b64_json' }));
-                const base64Image = openaiImgResponse.data[0].b64_json;
-                if (base64Image) {
-                    console.log("OpenAI image generation successful.");
-                    return `data:image/png;base64,${base64Image}`;
-                }
-            } catch (error) {
-                console.warn("OpenAI image generation failed, falling back to Gemini.", error);
-            }
-        }
-
-        // Priority 2: Gemini Imagen
-        if (apiClients.gemini && apiKeyStatus.gemini === 'valid') {
-            try {
-                 console.log("Attempting image generation with Google Gemini Imagen...");
-                 const geminiImgResponse = await callAiWithRetry(() => apiClients.gemini!.models.generateImages({ model: AI_MODELS.GEMINI_IMAGEN, prompt: prompt, config: { numberOfImages: 1, outputMimeType: 'image/jpeg', aspectRatio: '16:9' } }));
-                 const base64Image = geminiImgResponse.generatedImages[0].image.imageBytes;
-                 if (base64Image) {
-                    console.log("Gemini image generation successful.");
-                    return `data:image/jpeg;base64,${base64Image}`;
-                 }
-            } catch (error) {
-                 console.error("Gemini image generation also failed.", error);
-            }
-        }
-        
-        console.error("All image generation services failed or are unavailable.");
-        return null;
-    };
-    
-    const callAI = useCallback(async (
-        promptKey: keyof typeof PROMPT_TEMPLATES,
-        promptArgs: any[],
-        responseFormat: 'json' | 'html' = 'json'
-    ): Promise<string> => {
-        const client = apiClients[selectedModel as keyof typeof apiClients];
-        if (!client) throw new Error(`API Client for '${selectedModel}' not initialized.`);
-
-        const template = PROMPT_TEMPLATES[promptKey];
-        // Geo-targeting replacement is only relevant for the cluster planner
-        const systemInstruction = (promptKey === 'cluster_planner') 
-            ? template.systemInstruction.replace('{{GEO_TARGET_INSTRUCTIONS}}', (geoTargeting.enabled && geoTargeting.location) ? `All titles must be geo-targeted for "${geoTargeting.location}".` : '')
-            : template.systemInstruction;
-            
-        // @ts-ignore
-        const userPrompt = template.userPrompt(...promptArgs);
-        
-        let responseText: string | null = '';
-
-        switch (selectedModel) {
-            case 'gemini':
-                const geminiResponse = await callAiWithRetry(() => (client as GoogleGenAI).models.generateContent({
-                    model: AI_MODELS.GEMINI_FLASH,
-                    contents: userPrompt,
-                    config: { systemInstruction, responseMimeType: responseFormat === 'json' ? "application/json" : "text/plain" }
-                }));
-                responseText = geminiResponse.text;
-                break;
-            case 'openai':
-                const openaiResponse = await callAiWithRetry(() => (client as OpenAI).chat.completions.create({
-                    model: AI_MODELS.OPENAI_GPT4_TURBO,
-                    messages: [{ role: "system", content: systemInstruction }, { role: "user", content: userPrompt }],
-                    ...(responseFormat === 'json' && { response_format: { type: "json_object" } })
-                }));
-                responseText = openaiResponse.choices[0].message.content;
-                break;
-            case 'openrouter':
-                let lastError: Error | null = null;
-                for (const modelName of openrouterModels) {
-                    try {
-                        console.log(`[OpenRouter] Attempting '${promptKey}' with model: ${modelName}`);
-                        const response = await callAiWithRetry(() => (client as OpenAI).chat.completions.create({
-                            model: modelName,
-                            messages: [{ role: "system", content: systemInstruction }, { role: "user", content: userPrompt }],
-                             ...(responseFormat === 'json' && { response_format: { type: "json_object" } })
-                        }));
-                        const content = response.choices[0].message.content;
-                        if (!content) throw new Error("Empty response from model.");
-                        responseText = content;
-                        lastError = null; // Clear error on success
-                        break; // Success
-                    } catch (error: any) {
-                        console.error(`OpenRouter model '${modelName}' failed for '${promptKey}'. Trying next...`, error);
-                        lastError = error;
-                    }
-                }
-                if (lastError && !responseText) throw lastError;
-                break;
-            case 'groq':
-                 const groqResponse = await callAiWithRetry(() => (client as OpenAI).chat.completions.create({
-                    model: selectedGroqModel,
-                    messages: [{ role: "system", content: systemInstruction }, { role: "user", content: userPrompt }],
-                    ...(responseFormat === 'json' && { response_format: { type: "json_object" } })
-                }));
-                responseText = groqResponse.choices[0].message.content;
-                break;
-            case 'anthropic':
-                const anthropicResponse = await callAiWithRetry(() => (client as Anthropic).messages.create({
-                    model: promptKey.includes('section') ? AI_MODELS.ANTHROPIC_HAIKU : AI_MODELS.ANTHROPIC_OPUS,
-                    max_tokens: 4096,
-                    system: systemInstruction,
-                    messages: [{ role: "user", content: userPrompt }],
-                }));
-                responseText = anthropicResponse.content.map(c => c.text).join("");
-                break;
-        }
-
-        if (!responseText) {
-            throw new Error(`AI returned an empty response for the '${promptKey}' stage.`);
+                        type: 'UPDATE_STATUS',
+                        payload: { id: item.id, status: 'idle', statusText: 'Stopped by user' }
+                    });
+                }
+            });
+            setIsGenerating(false);
         }
+    };
 
-        return responseText;
-    }, [apiClients, selectedModel, geoTargeting, openrouterModels, selectedGroqModel]);
-
+    const generateImageWithFallback = (prompt: string, options: AiCallOptions = {}): Promise<string | null> =>
+        fixtureStore.intercept('image', prompt, () => generateImageFromProviders(prompt, options));
 
-    const generateContent = useCallback(async (itemsToGenerate: ContentItem[]) => {
+    const generateImageFromProviders = async (prompt: string, options: AiCallOptions): Promise<string | null> => {
+        // Priority order: OpenAI DALL-E 3, then Gemini Imagen
+        const imageProviders: AiProvider[] = ['openai', 'gemini'];
+        for (const provider of imageProviders) {
+            const adapter = providerAdapters[provider];
+            if (!adapter?.generateImages || apiKeyStatus[provider] !== 'valid') continue;
+            try {
+                console.log(`Attempting image generation with ${provider}...`);
+                const response = await adapter.generateImages({ prompt, numberOfImages: 1, aspectRatio: '16:9', signal: options.signal });
+                options.onUsage?.(priceImageResponse(response));
+                const images = response.images;
+                if (images[0]) {
+                    console.log(`${provider} image generation successful.`);
+                    return images[0];
+                }
+            } catch (error) {
+                if (isAbortError(error, options.signal)) throw error;
+                console.warn(`${provider} image generation failed, trying next provider.`, error);
+            }
+        }
+        
+        console.error("All image generation services failed or are unavailable.");
+        return null;
+    };
+    
+    const generateContent = useCallback(async (itemsToGenerate: ContentItem[], { useBatchApi = false }: { useBatchApi?: boolean } = {}) => {
         let generatedCount = 0;
+        let batchSpent = 0;
+        stopAllRef.current = false;
+        // Finished items that cost anything, and what they cost between them, for the per-item estimate.
+        let itemsCosted = 0;
+        let costedItemsSpent = 0;
+        setBatchCost(createEmptyCostSummary());
+
+        const startItemRun = (item: ContentItem) => {
+            const abortController = new AbortController();
+            abortControllersRef.current.set(item.id, abortController);
+            const { signal } = abortController;
+            const spending = { item: 0 }; // This run of this item only; items overlap in batch mode
+            const usageOptions: AiCallOptions = {
+                signal,
+                onUsage: (usage) => {
+                    batchSpent += usage.cost;
+                    spending.item += usage.cost;
+                    dispatch({ type: 'ADD_USAGE', payload: { id: item.id, usage } });
+                    setBatchCost(total => addCostSummaries(total, usage));
+                },
+            };
+            const profile = resolveContentProfile(contentProfiles, profileAssignments, item.type);
+            const voice = getItemVoice(item);
+            const language = item.language || contentLanguage;
+            const assertWithinBudget = () => {
+                if (budgetCap > 0 && batchSpent >= budgetCap) {
+                    throw new BudgetExceededError(`Budget cap of ${formatCost(budgetCap)} reached (spent ${formatCost(batchSpent)}).`);
+                }
+            };
+            // Checkpoints are bypassed while recording or replaying, like the in-memory cache.
+            const useCheckpoints = fixtureStore.mode === 'off';
+            const checkpoint = (useCheckpoints && checkpointStore.load(item)) || createEmptyCheckpoint(item.title);
+            const { provenance, trimmedInputs } = checkpoint;
+            const saveCheckpoint = (progress: Partial<GenerationCheckpoint> = {}) => {
+                Object.assign(checkpoint, progress);
+                if (useCheckpoints) checkpointStore.save(item.id, checkpoint);
+            };
+            const callStage = (promptKey: PromptKey, promptArgs: any[], responseFormat: 'json' | 'html' = 'json', stage: string = promptKey) => {
+                assertWithinBudget();
+                return callAI(promptKey, promptArgs, responseFormat, {
+                    ...usageOptions,
+                    profile,
+                    voice,
+                    language,
+                    onResponse: ({ provider, model, trimmedInputs: dropped, promptVersion }) => {
+                        // Saved with the checkpoint, so resumed stages keep the version that wrote them.
+                        provenance.push({ stage, provider, model, promptKey, promptVersion });
+                        dropped.forEach(note => trimmedInputs.push({ stage, note }));
+                    },
+                });
+            };
 
-        for (const item of itemsToGenerate) {
-            if (stopGenerationRef.current.has(item.id)) continue;
-
-            dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'generating', statusText: 'Initializing...' } });
-
-            let rawResponseForDebugging: any = null;
-            let processedContent: GeneratedContent | null = null;
-             
-            try {
-                let semanticKeywords: string[] | null = null;
-                let serpData: any[] | null = null;
-                let youtubeVideos: any[] | null = null;
-                
-                const isPillar = item.type === 'pillar';
+            dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'generating', statusText: checkpoint.semanticKeywords !== undefined ? 'Resuming from checkpoint...' : 'Initializing...' } });
+
+            return {
+                item,
+                signal,
+                profile,
+                voice,
+                language,
+                usageOptions,
+                assertWithinBudget,
+                callStage,
+                useCheckpoints,
+                checkpoint,
+                saveCheckpoint,
+                provenance,
+                trimmedInputs,
+                spending,
+                processedContent: null as GeneratedContent | null,
+                rawResponseForDebugging: null as any,
+            };
+        };
+        type ItemRun = ReturnType<typeof startItemRun>;
+
+        const finishItemRun = (run: ItemRun) => {
+            abortControllersRef.current.delete(run.item.id);
+            generatedCount++;
+            if (run.spending.item > 0) {
+                itemsCosted++;
+                costedItemsSpent += run.spending.item;
+            }
+            setGenerationProgress({ current: generatedCount, total: itemsToGenerate.length });
+        };
 
-                // --- STAGE 1: SERP & Keyword Intelligence ---
-                if (apiKeys.serperApiKey && apiKeyStatus.serper === 'valid') {
-                    dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'generating', statusText: 'Stage 1/5: Fetching SERP Data...' } });
-                    const cacheKey = `serp-${item.title}`;
-                    const cachedSerp = apiCache.get(cacheKey);
+        /**
+         * Records an item's failure.
+         * @param pendingItems Items not finished yet, which are skipped when the budget cap is reached.
+         * @returns true when the error ends the whole run.
+         */
+        const handleItemError = (run: ItemRun, error: any, pendingItems: ContentItem[]): boolean => {
+            const { item } = run;
+            if (isAbortError(error, run.signal)) {
+                // Stop already set the item's status. Only Stop All ends the run; the other items carry on.
+                console.log(`Generation for "${item.title}" was aborted.`);
+                return stopAllRef.current;
+            } else if (error instanceof BudgetExceededError) {
+                console.warn(`Stopping batch: ${error.message}`);
+                dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'error', statusText: error.message } });
+                for (const skipped of pendingItems) {
+                    if (stopGenerationRef.current.has(skipped.id)) continue;
+                    dispatch({ type: 'UPDATE_STATUS', payload: { id: skipped.id, status: 'error', statusText: 'Skipped: budget cap reached' } });
+                }
+                setGenerationProgress({ current: itemsToGenerate.length, total: itemsToGenerate.length });
+                return true;
+            } else if (error instanceof ContentTooShortError) {
+                const partialContent = { ...run.processedContent, content: error.content } as GeneratedContent;
+                checkpointStore.clear(item.id); // Resuming would only reassemble the same content.
+                console.warn(`Content for "${item.title}" was too short, but is being saved for review.`, error);
+                dispatch({ type: 'SET_CONTENT', payload: { id: item.id, content: partialContent } });
+                dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'error', statusText: `Quality Check Failed: ${error.message}` } });
+            } else {
+                console.error(`Error generating content for "${item.title}":`, error);
+                console.log(`[DEBUG] Raw AI Response for "${item.title}":`, run.rawResponseForDebugging);
+                const resumeNote = checkpointStore.has(item.id) ? ' Progress saved; Generate resumes.' : '';
+                dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'error', statusText: `Error: ${error.message.substring(0, 100)}...${resumeNote}` } });
+            }
+            return false;
+        };
 
-                    if (cachedSerp) {
-                         serpData = cachedSerp.serpData;
-                         youtubeVideos = cachedSerp.youtubeVideos;
-                    } else {
-                        try {
-                            const serperResponse = await fetchWithProxies("https://google.serper.dev/search", {
-                                method: 'POST',
-                                headers: { 'X-API-KEY': apiKeys.serperApiKey, 'Content-Type': 'application/json' },
-                                body: JSON.stringify({ q: item.title })
-                            });
-                            if (!serperResponse.ok) throw new Error(`Serper API failed with status ${serperResponse.status}`);
-                            const serperJson = await serperResponse.json();
-                            serpData = serperJson.organic ? serperJson.organic.slice(0, 10) : [];
-                            
-                            const videoCandidates = new Map<string, any>();
-                            const videoQueries = [`"${item.title}" tutorial`, `how to ${item.title}`, item.title];
+        /**
+         * Stages 1 and 2: SERP data, semantic keywords, the original article digest and the outline.
+         * @returns null if the item was stopped or paused for outline review.
+         */
+        const prepareOutline = async (run: ItemRun) => {
+            const { item, signal, callStage, checkpoint, saveCheckpoint, language } = run;
+            const { serperLocale, videoQueries } = CONTENT_LANGUAGES[language];
+
+            // Don't start an item that would likely overrun the cap, judged by the average cost of the items finished so far.
+            const averageItemCost = itemsCosted > 0 ? costedItemsSpent / itemsCosted : 0;
+            if (budgetCap > 0 && batchSpent + averageItemCost > budgetCap) {
+                throw new BudgetExceededError(`Budget cap of ${formatCost(budgetCap)} would be exceeded (spent ${formatCost(batchSpent)}, ~${formatCost(averageItemCost)} per item).`);
+            }
 
-                            for (const query of videoQueries) {
-                                if (videoCandidates.size >= 10) break;
-                                try {
-                                    const videoResponse = await fetchWithProxies("https://google.serper.dev/videos", {
-                                        method: 'POST', headers: { 'X-API-KEY': apiKeys.serperApiKey, 'Content-Type': 'application/json' }, body: JSON.stringify({ q: query })
-                                    });
-                                    if (videoResponse.ok) {
-                                        const json = await videoResponse.json();
-                                        for (const v of (json.videos || [])) {
-                                            const videoId = extractYouTubeID(v.link);
-                                            if (videoId && !videoCandidates.has(videoId)) videoCandidates.set(videoId, { ...v, videoId });
-                                        }
-                                    }
-                                } catch (e) { console.warn(`Video search failed for "${query}".`, e); }
+            let semanticKeywords: string[] | null = null;
+            let serpData: any[] | null = null;
+            let youtubeVideos: any[] | null = null;
+
+            // --- STAGE 1: SERP & Keyword Intelligence ---
+            if (checkpoint.research) {
+                ({ serpData, youtubeVideos } = checkpoint.research);
+            } else if ((apiKeys.serperApiKey && apiKeyStatus.serper === 'valid') || fixtureStore.mode === 'replay') {
+                dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'generating', statusText: 'Stage 1/5: Fetching SERP Data...' } });
+                const cacheKey = `serp-${language}-${item.title}`;
+                // The in-memory cache is bypassed while recording or replaying so every response is captured.
+                const cachedSerp = fixtureStore.mode === 'off' ? apiCache.get(cacheKey) : null;
+
+                if (cachedSerp) {
+                     serpData = cachedSerp.serpData;
+                     youtubeVideos = cachedSerp.youtubeVideos;
+                } else {
+                    try {
+                        const serperJson = await fetchSerperJson('search', apiKeys.serperApiKey, item.title, signal, serperLocale);
+                        serpData = serperJson.organic ? serperJson.organic.slice(0, 10) : [];
+                        
+                        const videoCandidates = new Map<string, any>();
+                        for (const query of videoQueries(item.title)) {
+                            if (videoCandidates.size >= 10) break;
+                            try {
+                                const json = await fetchSerperJson('videos', apiKeys.serperApiKey, query, signal, serperLocale);
+                                for (const v of (json.videos || [])) {
+                                    const videoId = extractYouTubeID(v.link);
+                                    if (videoId && !videoCandidates.has(videoId)) videoCandidates.set(videoId, { ...v, videoId });
+                                }
+                            } catch (e) {
+                                if (signal.aborted) throw e;
+                                console.warn(`Video search failed for "${query}".`, e);
                             }
-                            youtubeVideos = getUniqueYoutubeVideos(Array.from(videoCandidates.values()), YOUTUBE_EMBED_COUNT);
-                            apiCache.set(cacheKey, { serpData, youtubeVideos });
-                        } catch (serpError) {
-                            console.error("Failed to fetch SERP data:", serpError);
                         }
+                        youtubeVideos = getUniqueYoutubeVideos(Array.from(videoCandidates.values()), run.profile.youtubeEmbeds);
+                        apiCache.set(cacheKey, { serpData, youtubeVideos });
+                        saveCheckpoint({ research: { serpData, youtubeVideos } });
+                    } catch (serpError) {
+                        if (signal.aborted) throw serpError;
+                        console.error("Failed to fetch SERP data:", serpError);
                     }
                 }
+            }
 
+            // The template version is part of the key, so an edited template isn't answered from the cache.
+            const skCacheKey = `sk-${language}-${promptOverrideStore.activeVersionId('semantic_keyword_generator')}-${item.title}`;
+            if (checkpoint.semanticKeywords !== undefined) {
+                semanticKeywords = checkpoint.semanticKeywords;
+            } else if (fixtureStore.mode === 'off' && apiCache.get(skCacheKey)) {
+                semanticKeywords = apiCache.get(skCacheKey);
+            } else {
                 dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'generating', statusText: 'Stage 1/5: Analyzing Topic...' } });
-                const skCacheKey = `sk-${item.title}`;
-                if (apiCache.get(skCacheKey)) {
-                    semanticKeywords = apiCache.get(skCacheKey);
-                } else {
-                    const skResponseText = await callAI('semantic_keyword_generator', [item.title]);
-                    const parsedSk = JSON.parse(extractJson(skResponseText));
-                    semanticKeywords = parsedSk.semanticKeywords;
-                    apiCache.set(skCacheKey, semanticKeywords);
-                }
+                const skResponseText = await callStage('semantic_keyword_generator', [item.title]);
+                const parsedSk = JSON.parse(extractJson(skResponseText));
+                semanticKeywords = parsedSk.semanticKeywords;
+                apiCache.set(skCacheKey, semanticKeywords);
+            }
+            if (checkpoint.semanticKeywords === undefined) saveCheckpoint({ semanticKeywords });
 
-                if (stopGenerationRef.current.has(item.id)) break;
+            if (stopGenerationRef.current.has(item.id)) return null;
+
+            // Rewrite mode: digest the whole original article chunk by chunk (map), then merge (reduce),
+            // so facts past the first few thousand characters still reach the outline and sections.
+            let originalDigest: OriginalArticleDigest | null = checkpoint.originalDigest ?? null;
+            if (item.crawledContent && checkpoint.originalDigest === undefined) {
+                const chunks = chunkText(item.crawledContent, DIGEST_CHUNK_CHARS);
+                const chunkDigests: OriginalArticleDigest[] = [];
+                for (let c = 0; c < chunks.length; c++) {
+                    if (stopGenerationRef.current.has(item.id)) break;
+                    dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'generating', statusText: `Stage 1/5: Digesting Original Article (${c + 1}/${chunks.length})...` } });
+                    const digestText = await callStage('original_article_digest', [item.title, chunks[c], c + 1, chunks.length], 'json', `Digest ${c + 1}/${chunks.length}`);
+                    chunkDigests.push(JSON.parse(extractJson(digestText)));
+                }
+                if (stopGenerationRef.current.has(item.id)) return null;
+                originalDigest = mergeDigests(chunkDigests);
+                saveCheckpoint({ originalDigest });
+            }
 
+            if (stopGenerationRef.current.has(item.id)) return null;
+            let metaAndOutline = checkpoint.metaAndOutline;
+            if (!metaAndOutline) {
                 // --- STAGE 2: Generate Metadata and Outline ---
                 dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'generating', statusText: 'Stage 2/5: Generating Article Outline...' } });
-                const outlineResponseText = await callAI('content_meta_and_outline', [item.title, semanticKeywords, serpData, existingPages, item.crawledContent]);
-                rawResponseForDebugging = outlineResponseText; // Save for debugging if JSON parse fails
-                const metaAndOutline = JSON.parse(extractJson(outlineResponseText));
+                const outlineResponseText = await callStage('content_meta_and_outline', [item.title, semanticKeywords, serpData, existingPages, item.crawledContent, originalDigest]);
+                run.rawResponseForDebugging = outlineResponseText; // Save for debugging if JSON parse fails
+                metaAndOutline = JSON.parse(extractJson(outlineResponseText));
 
                 // SOTA FIX: Sanitize the introduction and conclusion HTML that comes from the JSON payload.
                 // This is the root cause of the layout distortion, as the AI was wrapping these
                 // specific fields in markdown fences, which were not being stripped.
                 metaAndOutline.introduction = sanitizeHtmlResponse(metaAndOutline.introduction);
                 metaAndOutline.conclusion = sanitizeHtmlResponse(metaAndOutline.conclusion);
+                saveCheckpoint({
+                    metaAndOutline,
+                    sectionHtmls: new Array(metaAndOutline.outline.length).fill(null),
+                    faqAnswerHtmls: new Array(metaAndOutline.faqSection.length).fill(null),
+                });
+            }
 
-                // --- STAGE 3: Generate Content Section-by-Section ---
-                const fullFaqData: { question: string, answer: string }[] = [];
-                let contentParts: string[] = [];
-                contentParts.push(metaAndOutline.introduction);
-                contentParts.push(`<h3>Key Takeaways</h3><ul>${metaAndOutline.keyTakeaways.map((li: string) => `<li>${li}</li>`).join('')}</ul>`);
-                
-                if (metaAndOutline.imageDetails?.[0]?.placeholder) contentParts.push(`<p>${metaAndOutline.imageDetails[0].placeholder}</p>`);
+            // The review gate needs the checkpoint to carry the edited outline into the next run.
+            if (pauseAfterOutline && run.useCheckpoints && !checkpoint.outlineApproved) {
+                dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'outline_ready', statusText: 'Outline ready for review' } });
+                return null;
+            }
+
+            return { semanticKeywords, serpData, youtubeVideos, originalDigest, metaAndOutline };
+        };
+        type PreparedOutline = NonNullable<Awaited<ReturnType<typeof prepareOutline>>>;
+
+        /**
+         * Every section and FAQ prompt of an item, each with the slot its HTML goes into.
+         * With a `waveSize`, sections are written in waves of that many, in outline order, and each
+         * section's prompt summarizes every section of the earlier waves. The summary then only depends
+         * on the outline and the wave size, never on which calls happened to finish first, so prompts
+         * and their fixture keys are the same on every run. FAQ answers all go in the first wave.
+         * Without a `waveSize` (the batch API, where every prompt is built before any is written)
+         * section prompts get no coverage summary.
+         */
+        const listWritingTasks = (run: ItemRun, outline: PreparedOutline, sectionHtmls: string[], faqAnswerHtmls: string[], waveSize: number | null) => {
+            const { metaAndOutline, originalDigest } = outline;
+            const headings: string[] = metaAndOutline.outline;
+            const waveOf = (index: number) => waveSize ? Math.floor(index / waveSize) : 0;
+            const coverageBefore = (index: number) => waveSize ? describeSectionCoverage(
+                headings.slice(0, waveOf(index) * waveSize).map((heading, i) => ({ heading, html: sectionHtmls[i] })).filter(section => section.html)
+            ) : null;
+            return [
+                ...headings.map((heading: string, i: number) => ({
+                    promptKey: 'write_article_section' as PromptKey,
+                    // Built when the wave starts, once every earlier wave is written.
+                    getPromptArgs: () => [run.item.title, metaAndOutline.title, heading, existingPages, originalDigest, headings, coverageBefore(i)],
+                    stage: `Section ${i + 1}: ${heading}`,
+                    target: sectionHtmls,
+                    index: i,
+                    wave: waveOf(i),
+                })),
+                ...metaAndOutline.faqSection.map((faq: { question: string }, i: number) => ({
+                    promptKey: 'write_faq_answer' as PromptKey,
+                    getPromptArgs: () => [faq.question],
+                    stage: `FAQ: ${faq.question}`,
+                    target: faqAnswerHtmls,
+                    index: i,
+                    wave: 0,
+                })),
+            ];
+        };
 
-                for (let i = 0; i < metaAndOutline.outline.length; i++) {
-                    const heading = metaAndOutline.outline[i];
+        /**
+         * Remediation for the word-count gate: rewrites the thinnest sections longer, re-assembles and
+         * re-checks, for up to MAX_EXPANSION_ROUNDS rounds. Expanded sections are checkpointed.
+         * @returns The assembled article, which may still be short, or null if the item was stopped.
+         */
+        const expandThinSections = async (run: ItemRun, outline: PreparedOutline, sectionHtmls: string[], faqAnswerHtmls: string[], minWords: number) => {
+            const { item } = run;
+            const { metaAndOutline, originalDigest, youtubeVideos } = outline;
+            const headings: string[] = metaAndOutline.outline;
+            let assembled = assembleArticleHtml(metaAndOutline, sectionHtmls, faqAnswerHtmls, youtubeVideos, run.language);
+
+            for (let round = 1; round <= MAX_EXPANSION_ROUNDS; round++) {
+                const wordCount = countWords(assembled.html);
+                if (wordCount >= minWords) break;
+                if (stopGenerationRef.current.has(item.id)) return null;
+
+                const thinnest = headings
+                    .map((heading, index) => ({ heading, index, words: countWords(sectionHtmls[index]) }))
+                    .sort((a, b) => a.words - b.words)
+                    .slice(0, SECTIONS_EXPANDED_PER_ROUND);
+                // A little over the even share, since expansions tend to undershoot.
+                const extraWords = Math.ceil((minWords - wordCount) / thinnest.length) + 50;
+                console.log(`[Expansion] "${item.title}" has ${wordCount}/${minWords} words; round ${round} expands: ${thinnest.map(s => s.heading).join(', ')}`);
+                dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'generating', statusText: `Stage 4/5: Expanding thin sections (round ${round}/${MAX_EXPANSION_ROUNDS}, ${wordCount}/${minWords} words)...` } });
+
+                let taskError: any = null;
+                await processConcurrently(
+                    thinnest,
+                    async ({ heading, index, words }) => {
+                        const coveredElsewhere = describeSectionCoverage(
+                            headings.map((other, i) => ({ heading: other, html: sectionHtmls[i] })).filter((_, i) => i !== index)
+                        );
+                        const revision = {
+                            currentHtml: sectionHtmls[index],
+                            instruction: `Expand this section from ${words} to about ${words + extraWords} words. Add specifics, concrete examples or a comparison table; no filler. Keep the existing content. For this expansion, ignore the usual ${run.profile.sectionMinWords}-${run.profile.sectionMaxWords} word limit per section.`,
+                        };
+                        try {
+                            const html = await run.callStage('write_article_section', [item.title, metaAndOutline.title, heading, existingPages, originalDigest, headings, coveredElsewhere, revision], 'html', `Expansion ${round}: ${heading}`);
+                            sectionHtmls[index] = sanitizeHtmlResponse(html);
+                            run.saveCheckpoint();
+                        } catch (error) {
+                            taskError ??= error;
+                        }
+                    },
+                    sectionConcurrency,
+                    undefined,
+                    () => taskError !== null || stopGenerationRef.current.has(item.id)
+                );
+                if (taskError) throw taskError;
+                assembled = assembleArticleHtml(metaAndOutline, sectionHtmls, faqAnswerHtmls, youtubeVideos, run.language);
+            }
+            return assembled;
+        };
+
+        /**
+         * Stages 4 and 5: assembly, quality gates, linking, images and schema markup.
+         * @returns false if the item was stopped.
+         */
+        const finalizeItem = async (run: ItemRun, outline: PreparedOutline, sectionHtmls: string[], faqAnswerHtmls: string[]): Promise<boolean> => {
+            const { item, profile } = run;
+            const { semanticKeywords, serpData, youtubeVideos, metaAndOutline } = outline;
+            const assembled = await expandThinSections(run, outline, sectionHtmls, faqAnswerHtmls, profile.minWords);
+            if (!assembled) return false;
+            const { html: finalContentHtml, faqData: fullFaqData } = assembled;
+
+            // --- STAGE 4: Final Assembly & Post-Processing ---
+            const processedContent = normalizeGeneratedContent(metaAndOutline, item.title);
+            run.processedContent = processedContent;
+            processedContent.content = finalContentHtml;
+            processedContent.primaryKeyword = item.title;
+            processedContent.semanticKeywords = semanticKeywords || [];
+            processedContent.provenance = run.provenance;
+            processedContent.trimmedInputs = run.trimmedInputs;
+            processedContent.language = run.language;
+            processedContent.promptVersions = summarizePromptVersions(run.provenance);
+            
+            // QUALITY GATES
+            enforceWordCount(processedContent.content, profile.minWords, profile.maxWords);
+            processedContent.humanWritingReport = buildHumanWritingReport(processedContent.content, cleanTermList(run.voice.bannedTerms), run.language);
+            console.log(`🤖 Human Writing Score: ${processedContent.humanWritingReport.score}% (${processedContent.humanWritingReport.findings.length} stock phrase(s) flagged)`);
+            const tableCount = (processedContent.content.match(/<table\b/gi) || []).length;
+            if (tableCount < profile.minTables) console.warn(`⚠️  Only ${tableCount} table(s) (profile "${profile.name}" asks for ${profile.minTables})`);
+            
+            // LINKING & EMBED PROTOCOL
+            processedContent.content = validateAndRepairInternalLinks(processedContent.content, existingPages);
+            processedContent.content = enforceInternalLinkQuota(processedContent.content, existingPages, processedContent.primaryKeyword, profile.minInternalLinks);
+            processedContent.content = processInternalLinks(processedContent.content, existingPages);
+            processedContent.repeatedParagraphs = findRepeatedParagraphs(processedContent.content);
+            if (processedContent.repeatedParagraphs.length > 0) console.warn(`⚠️  ${processedContent.repeatedParagraphs.length} paragraph(s) repeat earlier content`);
+            
+            if (youtubeVideos) {
+                processedContent.content = enforceUniqueVideoEmbeds(processedContent.content, youtubeVideos);
+            }
+            processedContent.content = processedContent.content.replace(/<iframe[^>]+src="https:\/\/www\.youtube\.com\/embed\/[^>]+>/g, (match) => {
+                return match.replace(/width="[^"]*"/, 'width="100%"').replace(/height="[^"]*"/, 'height="410"');
+            });
+            
+            if (processedContent.content.includes('[REFERENCES_PLACEHOLDER]')) {
+                let referencesHtml = `<h2>${CONTENT_LANGUAGES[run.language].headings.references}</h2><ul>`;
+                if (serpData && serpData.length > 0) {
+                    serpData.slice(0, 8).forEach(ref => {
+                        if (ref.link && ref.title) referencesHtml += `<li><a href="${ref.link}" target="_blank" rel="noopener noreferrer">${ref.title}</a></li>`;
+                    });
+                }
+                referencesHtml += '</ul>';
+                processedContent.content = processedContent.content.replace('[REFERENCES_PLACEHOLDER]', referencesHtml);
+            }
+            
+            // Conditional Image Generation
+            if (apiKeyStatus.openai === 'valid' || apiKeyStatus.gemini === 'valid' || fixtureStore.mode === 'replay') {
+                for (let i = 0; i < processedContent.imageDetails.length; i++) {
+                    const imageDetail = processedContent.imageDetails[i];
                     if (stopGenerationRef.current.has(item.id)) break;
-                    dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'generating', statusText: `Stage 3/5: Writing Section ${i + 1}/${metaAndOutline.outline.length}` } });
+                    dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'generating', statusText: `Stage 4/5: Generating Image ${i + 1}/${processedContent.imageDetails.length}...` } });
                     
-                    const rawSectionHtml = await callAI('write_article_section', [item.title, metaAndOutline.title, heading, existingPages], 'html');
-                    const sectionHtml = sanitizeHtmlResponse(rawSectionHtml);
-                    contentParts.push(`<h2>${heading}</h2>\n${sectionHtml}`);
-
-                    if (i === 2 && youtubeVideos?.[0]) {
-                        const vid = youtubeVideos[0];
-                        contentParts.push(`<div class="video-container"><iframe width="100%" height="410" src="${vid.embedUrl}" frameborder="0" allowfullscreen title="${vid.title}"></iframe></div>`);
-                    }
-                    if (i === 6 && youtubeVideos?.[1]) {
-                        const vid = youtubeVideos[1];
-                        contentParts.push(`<div class="video-container"><iframe width="100%" height="410" src="${vid.embedUrl}" frameborder="0" allowfullscreen title="${vid.title}"></iframe></div>`);
-                    }
-                    if (i === 4 && metaAndOutline.imageDetails?.[1]?.placeholder) {
-                        contentParts.push(`<p>${metaAndOutline.imageDetails[1].placeholder}</p>`);
+                    run.assertWithinBudget();
+                    const generatedImageSrc = await generateImageWithFallback(imageDetail.prompt, run.usageOptions);
+                    
+                    if (generatedImageSrc) {
+                        processedContent.imageDetails[i].generatedImageSrc = generatedImageSrc;
+                        const imageHtml = `<figure class="wp-block-image size-large"><img src="${generatedImageSrc}" alt="${imageDetail.altText}" title="${imageDetail.title}"/><figcaption>${imageDetail.altText}</figcaption></figure>`;
+                        if (processedContent.content.includes(imageDetail.placeholder)) {
+                            processedContent.content = processedContent.content.replace(new RegExp(escapeRegExp(imageDetail.placeholder), 'g'), imageHtml);
+                        }
+                    } else {
+                         if (imageDetail.placeholder) {
+                            processedContent.content = processedContent.content.replace(new RegExp(escapeRegExp(imageDetail.placeholder), 'g'), `<!-- Image generation failed for prompt: "${imageDetail.prompt}" -->`);
+                         }
                     }
                 }
-                if (stopGenerationRef.current.has(item.id)) break;
-                
-                contentParts.push(`<h2>Frequently Asked Questions</h2>`);
-                for (const faq of metaAndOutline.faqSection) {
-                     if (stopGenerationRef.current.has(item.id)) break;
-                     const rawAnswerHtml = await callAI('write_faq_answer', [faq.question], 'html');
-                     const answerHtml = sanitizeHtmlResponse(rawAnswerHtml);
-                     
-                     const tempDiv = document.createElement('div');
-                     tempDiv.innerHTML = answerHtml;
-                     const answerText = tempDiv.textContent?.trim() || '';
-                     if (faq.question && answerText) {
-                        fullFaqData.push({ question: faq.question, answer: answerText });
-                     }
-                     
-                     contentParts.push(`<h3>${faq.question}</h3>\n${answerHtml}`);
-                }
-                
-                contentParts.push(metaAndOutline.conclusion);
-                contentParts.push('[REFERENCES_PLACEHOLDER]');
-                
-                let finalContentHtml = contentParts.join('\n\n');
+            } else {
+                console.warn("No valid image generation API key found. Stripping image placeholders.");
+                processedContent.content = processedContent.content.replace(/\[IMAGE_\d+_PLACEHOLDER\]/g, '');
+            }
 
-                // --- STAGE 4: Final Assembly & Post-Processing ---
-                processedContent = normalizeGeneratedContent(metaAndOutline, item.title);
-                processedContent.content = finalContentHtml;
-                processedContent.primaryKeyword = item.title;
-                processedContent.semanticKeywords = semanticKeywords || [];
-                
-                // QUALITY GATES
-                enforceWordCount(processedContent.content, isPillar ? TARGET_MIN_WORDS_PILLAR : TARGET_MIN_WORDS, isPillar ? TARGET_MAX_WORDS_PILLAR : TARGET_MAX_WORDS);
-                checkHumanWritingScore(processedContent.content);
-                
-                // LINKING & EMBED PROTOCOL
-                processedContent.content = validateAndRepairInternalLinks(processedContent.content, existingPages);
-                processedContent.content = enforceInternalLinkQuota(processedContent.content, existingPages, processedContent.primaryKeyword, MIN_INTERNAL_LINKS);
-                processedContent.content = processInternalLinks(processedContent.content, existingPages);
-                
-                if (youtubeVideos) {
-                    processedContent.content = enforceUniqueVideoEmbeds(processedContent.content, youtubeVideos);
+            if (stopGenerationRef.current.has(item.id)) return false;
+            
+            // --- STAGE 5: Generate Schema Markup ---
+            dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'generating', statusText: 'Stage 5/5: Generating Schema...' } });
+            const schemaObject = generateFullSchema(processedContent, wpConfig, fullFaqData);
+            processedContent.jsonLdSchema = schemaObject;
+
+            dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'generating', statusText: 'Stage 5/5: Finalizing...' } });
+            dispatch({ type: 'SET_CONTENT', payload: { id: item.id, content: processedContent } });
+            checkpointStore.clear(item.id);
+            return true;
+        };
+
+        /** Runs every stage of one item before starting the next. */
+        const generateInteractively = async () => {
+            for (let itemIndex = 0; itemIndex < itemsToGenerate.length; itemIndex++) {
+                const item = itemsToGenerate[itemIndex];
+                if (stopAllRef.current) break;
+                if (stopGenerationRef.current.has(item.id)) continue;
+
+                const run = startItemRun(item);
+                try {
+                    const outline = await prepareOutline(run);
+                    if (!outline) continue; // Stopped, or paused for outline review
+                    const { metaAndOutline } = outline;
+
+                    // --- STAGE 3: Sections and FAQ answers, written concurrently within each wave ---
+                    // Each result lands in its outline slot, so completion order doesn't matter. The rate
+                    // limiters still pace the actual requests. Slots filled by an earlier attempt are kept.
+                    const { sectionHtmls, faqAnswerHtmls } = run.checkpoint;
+                    const allTasks = listWritingTasks(run, outline, sectionHtmls, faqAnswerHtmls, sectionConcurrency);
+                    const tasks = allTasks.filter(({ target, index }) => !target[index]);
+                    let written = allTasks.length - tasks.length;
+                    let taskError: any = null;
+                    dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'generating', statusText: `Stage 3/5: Writing Sections & FAQs (${written}/${allTasks.length})` } });
+                    const waveCount = Math.max(0, ...allTasks.map(task => task.wave + 1));
+                    for (let wave = 0; wave < waveCount && !taskError && !stopGenerationRef.current.has(item.id); wave++) {
+                        await processConcurrently(
+                            tasks.filter(task => task.wave === wave),
+                            async ({ promptKey, getPromptArgs, stage, target, index }) => {
+                                try {
+                                    target[index] = sanitizeHtmlResponse(await run.callStage(promptKey, getPromptArgs(), 'html', stage));
+                                    run.saveCheckpoint();
+                                } catch (error) {
+                                    taskError ??= error;
+                                }
+                            },
+                            sectionConcurrency,
+                            () => dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'generating', statusText: `Stage 3/5: Writing Sections & FAQs (${++written}/${allTasks.length})` } }),
+                            () => taskError !== null || stopGenerationRef.current.has(item.id)
+                        );
+                    }
+                    if (taskError) throw taskError;
+                    if (stopGenerationRef.current.has(item.id)) continue;
+
+                    await finalizeItem(run, outline, sectionHtmls, faqAnswerHtmls);
+                } catch (error: any) {
+                    if (handleItemError(run, error, itemsToGenerate.slice(itemIndex + 1))) break;
+                } finally {
+                    finishItemRun(run);
                 }
-                processedContent.content = processedContent.content.replace(/<iframe[^>]+src="https:\/\/www\.youtube\.com\/embed\/[^>]+>/g, (match) => {
-                    return match.replace(/width="[^"]*"/, 'width="100%"').replace(/height="[^"]*"/, 'height="410"');
-                });
-                
-                if (processedContent.content.includes('[REFERENCES_PLACEHOLDER]')) {
-                    let referencesHtml = '<h2>References</h2><ul>';
-                    if (serpData && serpData.length > 0) {
-                        serpData.slice(0, 8).forEach(ref => {
-                            if (ref.link && ref.title) referencesHtml += `<li><a href="${ref.link}" target="_blank" rel="noopener noreferrer">${ref.title}</a></li>`;
-                        });
+            }
+        };
+
+        /**
+         * Prepares every item's outline interactively, sends all section and FAQ prompts as one batch job
+         * per provider and model, then finishes each item once the results are in.
+         */
+        const generateWithBatchApi = async () => {
+            // Marked up front so that Stop All also covers items whose turn hasn't come yet.
+            itemsToGenerate.forEach(item => dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'generating', statusText: 'Queued for batch run...' } }));
+
+            type PreparedItem = { run: ItemRun; outline: PreparedOutline; failures: string[]; estimatedCost: number };
+            const prepared: PreparedItem[] = [];
+            for (let itemIndex = 0; itemIndex < itemsToGenerate.length; itemIndex++) {
+                const item = itemsToGenerate[itemIndex];
+                if (stopGenerationRef.current.has(item.id)) continue;
+
+                const run = startItemRun(item);
+                try {
+                    const outline = await prepareOutline(run);
+                    if (outline) {
+                        prepared.push({ run, outline, failures: [], estimatedCost: 0 });
+                        dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'generating', statusText: 'Stage 3/5: Waiting for the other outlines...' } });
+                    } else {
+                        finishItemRun(run);
+                    }
+                } catch (error: any) {
+                    finishItemRun(run);
+                    // A stopped item simply drops out; the rest still go into the batch.
+                    if (handleItemError(run, error, [...prepared.map(p => p.run.item), ...itemsToGenerate.slice(itemIndex + 1)]) && !isAbortError(error, run.signal)) {
+                        prepared.forEach(p => finishItemRun(p.run));
+                        return;
                     }
-                    referencesHtml += '</ul>';
-                    processedContent.content = processedContent.content.replace('[REFERENCES_PLACEHOLDER]', referencesHtml);
                 }
-                
-                // Conditional Image Generation
-                if (apiKeyStatus.openai === 'valid' || apiKeyStatus.gemini === 'valid') {
-                    for (let i = 0; i < processedContent.imageDetails.length; i++) {
-                        const imageDetail = processedContent.imageDetails[i];
-                        if (stopGenerationRef.current.has(item.id)) break;
-                        dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'generating', statusText: `Stage 4/5: Generating Image ${i + 1}/${processedContent.imageDetails.length}...` } });
-                        
-                        const generatedImageSrc = await generateImageWithFallback(imageDetail.prompt);
-                        
-                        if (generatedImageSrc) {
-                            processedContent.imageDetails[i].generatedImageSrc = generatedImageSrc;
-                            const imageHtml = `<figure class="wp-block-image size-large"><img src="${generatedImageSrc}" alt="${imageDetail.altText}" title="${imageDetail.title}"/><figcaption>${imageDetail.altText}</figcaption></figure>`;
-                            if (processedContent.content.includes(imageDetail.placeholder)) {
-                                processedContent.content = processedContent.content.replace(new RegExp(escapeRegExp(imageDetail.placeholder), 'g'), imageHtml);
-                            }
-                        } else {
-                             if (imageDetail.placeholder) {
-                                processedContent.content = processedContent.content.replace(new RegExp(escapeRegExp(imageDetail.placeholder), 'g'), `<!-- Image generation failed for prompt: "${imageDetail.prompt}" -->`);
-                             }
-                        }
+            }
+            if (prepared.length === 0) return;
+
+            // --- STAGE 3: Missing section and FAQ prompts, grouped into one job per routed provider and model ---
+            const jobs = new Map<string, { provider: AiProvider; model?: string; prompts: BatchPrompt[] }>();
+            const slots = new Map<string, { owner: PreparedItem; target: string[]; index: number; promptKey: PromptKey; promptVersion: string }>();
+            prepared.forEach((owner, ownerIndex) => {
+                const queue = (promptKey: PromptKey, promptArgs: any[], stage: string, target: string[], index: number) => {
+                    const route = resolveStageRoute(stageRouting, promptKey, selectedModel);
+                    const jobKey = `${route.provider}:${route.model || ''}`;
+                    if (!jobs.has(jobKey)) jobs.set(jobKey, { ...route, prompts: [] });
+                    const customId = `item${ownerIndex}_${promptKey}_${index}`;
+                    const prompt: BatchPrompt = { customId, promptKey, promptArgs, stage, profile: owner.run.profile, voice: owner.run.voice, language: owner.run.language };
+                    jobs.get(jobKey)!.prompts.push(prompt);
+                    const adapter = providerAdapters[route.provider];
+                    if (adapter) {
+                        const model = route.model || adapter.defaultModel;
+                        owner.estimatedCost += estimateBatchPromptCost(prompt, route.provider, model, getContextWindow(route.provider, model, modelCatalog));
                     }
-                } else {
-                    console.warn("No valid image generation API key found. Stripping image placeholders.");
-                    processedContent.content = processedContent.content.replace(/\[IMAGE_\d+_PLACEHOLDER\]/g, '');
+                    slots.set(customId, { owner, target, index, promptKey, promptVersion: promptOverrideStore.activeVersionName(promptKey) });
+                };
+                // Batch prompts are all built before any is written, so they carry no coverage summary.
+                listWritingTasks(owner.run, owner.outline, owner.run.checkpoint.sectionHtmls, owner.run.checkpoint.faqAnswerHtmls, null)
+                    .filter(({ target, index }) => !target[index])
+                    .forEach(({ promptKey, getPromptArgs, stage, target, index }) => queue(promptKey, getPromptArgs(), stage, target, index));
+            });
+
+            // Nothing is billed until the jobs finish, so the budget cap is checked against the estimate
+            // up front. Items are kept in order while they fit; the rest are skipped before submitting.
+            if (budgetCap > 0) {
+                let committed = batchSpent;
+                const skipped = new Set<PreparedItem>();
+                prepared.forEach(owner => {
+                    if (skipped.size === 0 && committed + owner.estimatedCost <= budgetCap) {
+                        committed += owner.estimatedCost;
+                    } else {
+                        skipped.add(owner);
+                    }
+                });
+                if (skipped.size > 0) {
+                    const skippedCost = [...skipped].reduce((sum, owner) => sum + owner.estimatedCost, 0);
+                    console.warn(`[Batch] Skipping ${skipped.size} item(s): their prompts (~${formatCost(skippedCost)}) would exceed the budget cap of ${formatCost(budgetCap)} (spent ${formatCost(batchSpent)}).`);
+                    skipped.forEach(owner => {
+                        dispatch({ type: 'UPDATE_STATUS', payload: { id: owner.run.item.id, status: 'error', statusText: `Skipped: its batch prompts (~${formatCost(owner.estimatedCost)}) would exceed the budget cap` } });
+                        finishItemRun(owner.run);
+                    });
+                    jobs.forEach((job, jobKey) => {
+                        job.prompts = job.prompts.filter(({ customId }) => !skipped.has(slots.get(customId)!.owner));
+                        if (job.prompts.length === 0) jobs.delete(jobKey);
+                    });
+                    prepared.splice(0, prepared.length, ...prepared.filter(owner => !skipped.has(owner)));
+                    if (prepared.length === 0) return;
                 }
+            }
 
-                if (stopGenerationRef.current.has(item.id)) break;
-                
-                // --- STAGE 5: Generate Schema Markup ---
-                dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'generating', statusText: 'Stage 5/5: Generating Schema...' } });
-                const schemaObject = generateFullSchema(processedContent, wpConfig, fullFaqData);
-                processedContent.jsonLdSchema = schemaObject;
+            // Waiting only ends early once every item in the batch has been stopped.
+            const batchController = new AbortController();
+            const abortWhenAllStopped = () => {
+                if (prepared.every(({ run }) => run.signal.aborted)) batchController.abort();
+            };
+            prepared.forEach(({ run }) => run.signal.addEventListener('abort', abortWhenAllStopped));
+
+            // Set once every job has settled, so a job still polling can't mark finished items as generating again.
+            let batchFinished = false;
+            try {
+                const jobList = [...jobs.values()];
+                // Settled one by one: a failed job fails only the items with prompts in it, and what the
+                // other jobs returned is still kept and checkpointed.
+                const outcomes = await Promise.allSettled(jobList.map(async ({ provider, model, prompts }) => {
+                    const adapter = providerAdapters[provider];
+                    if (!adapter) throw new Error(`API Client for '${provider}' not initialized.`);
+                    const owners = new Set(prompts.map(({ customId }) => slots.get(customId)!.owner));
+                    const results = await runBatchJob(adapter, prompts, 'html', {
+                        model,
+                        contextWindow: getContextWindow(provider, model || adapter.defaultModel, modelCatalog),
+                        signal: batchController.signal,
+                        onProgress: ({ completed, total }) => owners.forEach(({ run }) => {
+                            if (batchFinished || run.signal.aborted) return;
+                            dispatch({ type: 'UPDATE_STATUS', payload: { id: run.item.id, status: 'generating', statusText: `Stage 3/5: Waiting for ${provider} batch (${completed}/${total || prompts.length})...` } });
+                        }),
+                    });
 
-                dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'generating', statusText: 'Stage 5/5: Finalizing...' } });
-                dispatch({ type: 'SET_CONTENT', payload: { id: item.id, content: processedContent } });
+                    for (const { customId, stage } of prompts) {
+                        const { owner, target, index, promptKey, promptVersion } = slots.get(customId)!;
+                        const { response, error } = results.get(customId) || {};
+                        if (!response?.text) {
+                            owner.failures.push(`${stage}: ${error || 'no result returned'}`);
+                            continue;
+                        }
+                        owner.run.usageOptions.onUsage?.(priceTextResponse(response));
+                        owner.run.provenance.push({ stage, provider: response.provider, model: response.model, promptKey, promptVersion });
+                        response.trimmedInputs?.forEach(note => owner.run.trimmedInputs.push({ stage, note }));
+                        target[index] = sanitizeHtmlResponse(response.text);
+                    }
+                    owners.forEach(({ run }) => run.saveCheckpoint());
+                }));
 
+                outcomes.forEach((outcome, jobIndex) => {
+                    if (outcome.status === 'fulfilled' || isAbortError(outcome.reason, batchController.signal)) return;
+                    const { provider, prompts } = jobList[jobIndex];
+                    console.error(`[Batch] The ${provider} job failed:`, outcome.reason);
+                    new Set(prompts.map(({ customId }) => slots.get(customId)!.owner)).forEach(owner => {
+                        owner.failures.push(`${provider} batch: ${outcome.reason?.message || outcome.reason}`);
+                    });
+                });
             } catch (error: any) {
-                if (error instanceof ContentTooShortError) {
-                    const partialContent = { ...processedContent, content: error.content } as GeneratedContent;
-                    console.warn(`Content for "${item.title}" was too short, but is being saved for review.`, error);
-                    dispatch({ type: 'SET_CONTENT', payload: { id: item.id, content: partialContent } });
-                    dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'error', statusText: `Quality Check Failed: ${error.message}` } });
-                } else {
-                    console.error(`Error generating content for "${item.title}":`, error);
-                    console.log(`[DEBUG] Raw AI Response for "${item.title}":`, rawResponseForDebugging);
-                    dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'error', statusText: `Error: ${error.message.substring(0, 100)}...` } });
-                }
+                // Stop the jobs still polling before their items are marked as finished.
+                batchController.abort();
+                prepared.forEach(({ run }) => {
+                    handleItemError(run, error, []);
+                    finishItemRun(run);
+                });
+                return;
             } finally {
-                generatedCount++;
-                setGenerationProgress({ current: generatedCount, total: itemsToGenerate.length });
+                batchFinished = true;
             }
-        }
 
+            // --- STAGES 4 & 5: Same post-processing as interactive generation ---
+            for (let p = 0; p < prepared.length; p++) {
+                const { run, outline, failures } = prepared[p];
+                try {
+                    if (stopGenerationRef.current.has(run.item.id)) continue;
+                    if (failures.length > 0) throw new Error(`${failures.length} batch request(s) failed. ${failures[0]}`);
+                    await finalizeItem(run, outline, run.checkpoint.sectionHtmls, run.checkpoint.faqAnswerHtmls);
+                } catch (error: any) {
+                    const remaining = prepared.slice(p + 1);
+                    if (handleItemError(run, error, remaining.map(r => r.run.item)) && !isAbortError(error, run.signal)) {
+                        remaining.forEach(r => finishItemRun(r.run));
+                        return;
+                    }
+                } finally {
+                    finishItemRun(run);
+                }
+            }
+        };
+
+        if (useBatchApi) {
+            await generateWithBatchApi();
+        } else {
+            await generateInteractively();
+        }
         setIsGenerating(false);
-    }, [apiKeys, apiKeyStatus, callAI, existingPages, wpConfig]);
+    }, [apiKeys, apiKeyStatus, callAI, existingPages, wpConfig, budgetCap, providerAdapters, stageRouting, selectedModel, modelCatalog, sectionConcurrency, pauseAfterOutline, contentProfiles, profileAssignments, getItemVoice, contentLanguage]);
     
     // --- WordPress Publishing Logic ---
 
@@ -3508,13 +6885,86 @@ const App = () => {
     
     const handleCloseReview = () => setSelectedItemForReview(null);
 
-    const handleSaveChanges = (itemId: string, updatedSeo: { title: string; metaDescription: string; slug: string; }, updatedContent: string) => {
+    /**
+     * Writes one section again for the Review modal. With an instruction the current version is
+     * revised; without one the section is written from scratch. Every other section of the article
+     * is summarized as already covered.
+     * @returns The new section body with internal links resolved, and where it came from.
+     */
+    const handleRewriteSection = async (item: ContentItem, articleHtml: string, heading: string, currentHtml: string, instruction: string): Promise<{ html: string; source: ProvenanceEntry }> => {
+        const content = item.generatedContent!;
+        const sections = splitArticleSections(articleHtml).filter(section => section.rewritable);
+        const coveredElsewhere = describeSectionCoverage(
+            sections.filter(section => section.heading !== heading).map(section => ({ heading: section.heading, html: getSectionBody(section) }))
+        );
+        const revision = instruction ? { instruction, currentHtml } : null;
+        let source: ProvenanceEntry | null = null;
+        const responseText = await callAI('write_article_section', [content.primaryKeyword, content.title, heading, existingPages, null, sections.map(section => section.heading), coveredElsewhere, revision], 'html', {
+            onUsage: (usage) => dispatch({ type: 'ADD_USAGE', payload: { id: item.id, usage } }),
+            onResponse: ({ provider, model, promptVersion }) => {
+                source = { stage: `Review rewrite: ${heading}`, provider, model, promptKey: 'write_article_section', promptVersion };
+            },
+            profile: resolveContentProfile(contentProfiles, profileAssignments, item.type),
+            voice: getItemVoice(item),
+            language: content.language || 'en',
+        });
+        const sectionHtml = validateAndRepairInternalLinks(sanitizeHtmlResponse(responseText), existingPages);
+        return { html: processInternalLinks(sectionHtml, existingPages), source: source! };
+    };
+
+    /**
+     * Rewrites the sentences the Review modal flags for stock AI phrases, in the article's voice
+     * and language.
+     * @returns One rewritten sentence per input sentence, in the same order, and where they came from.
+     */
+    const handleHumanizeSentences = async (item: ContentItem, sentences: FlaggedSentence[]): Promise<{ sentences: string[]; source: ProvenanceEntry }> => {
+        const content = item.generatedContent!;
+        let source: ProvenanceEntry | null = null;
+        const responseText = await callAI('humanize_sentences', [formatFlaggedSentences(sentences)], 'json', {
+            onUsage: (usage) => dispatch({ type: 'ADD_USAGE', payload: { id: item.id, usage } }),
+            onResponse: ({ provider, model, promptVersion }) => {
+                source = { stage: 'Review rewrite: flagged sentences', provider, model, promptKey: 'humanize_sentences', promptVersion };
+            },
+            profile: resolveContentProfile(contentProfiles, profileAssignments, item.type),
+            voice: getItemVoice(item),
+            language: content.language || 'en',
+        });
+        const rewritten = JSON.parse(extractJson(responseText)).sentences;
+        if (!Array.isArray(rewritten) || rewritten.length !== sentences.length) {
+            throw new Error(`Expected ${sentences.length} rewritten sentences but got ${Array.isArray(rewritten) ? rewritten.length : 'none'}. Try again.`);
+        }
+        return { sentences: rewritten.map(sentence => String(sentence).trim()), source: source! };
+    };
+
+    // --- Outline Review Logic ---
+    const handleApproveOutline = (item: ContentItem, editedOutline: any) => {
+        const checkpoint = checkpointStore.load(item);
+        if (!checkpoint?.metaAndOutline) {
+            alert("The saved outline for this item is gone. Generate the item again to get a new one.");
+            return;
+        }
+        // Nothing has been written yet at this point, so the section slots simply follow the new outline.
+        checkpointStore.save(item.id, {
+            ...checkpoint,
+            metaAndOutline: editedOutline,
+            outlineApproved: true,
+            sectionHtmls: new Array(editedOutline.outline.length).fill(null),
+            faqAnswerHtmls: new Array(editedOutline.faqSection.length).fill(null),
+        });
+        setOutlineReviewItem(null);
+        handleGenerateSingle(item); // Interactive even in batch mode; see handleGenerateSingle
+    };
+
+    const handleSaveChanges = (itemId: string, updatedSeo: { title: string; metaDescription: string; slug: string; }, updatedContent: string, rewriteProvenance: ProvenanceEntry[]) => {
         const itemToUpdate = items.find(i => i.id === itemId);
         if (itemToUpdate && itemToUpdate.generatedContent) {
+            const provenance = [...(itemToUpdate.generatedContent.provenance || []), ...rewriteProvenance];
             const updatedGeneratedContent: GeneratedContent = {
                 ...itemToUpdate.generatedContent,
                 ...updatedSeo,
-                content: updatedContent
+                content: updatedContent,
+                provenance,
+                promptVersions: summarizePromptVersions(provenance),
             };
             dispatch({ type: 'SET_CONTENT', payload: { id: itemId, content: updatedGeneratedContent } });
         }
@@ -3611,12 +7061,10 @@ const App = () => {
                         <div className="setup-form">
                              <fieldset className="config-fieldset">
                                 <legend>AI Provider</legend>
-                                <select value={selectedModel} onChange={e => setSelectedModel(e.target.value)}>
-                                    <option value="gemini">Google Gemini</option>
-                                    <option value="openai">OpenAI</option>
-                                    <option value="anthropic">Anthropic</option>
-                                    <option value="openrouter">OpenRouter</option>
-                                    <option value="groq">Groq</option>
+                                <select value={selectedModel} onChange={e => setSelectedModel(e.target.value as AiProvider)}>
+                                    {AI_PROVIDERS.map(provider => (
+                                        <option key={provider.id} value={provider.id}>{provider.label}</option>
+                                    ))}
                                 </select>
                             </fieldset>
                              <fieldset className="config-fieldset full-width">
@@ -3658,6 +7106,24 @@ const App = () => {
                                                 placeholder={"google/gemini-2.5-flash\nanthropic/claude-3-haiku\nmicrosoft/wizardlm-2-8x22b\nopenrouter/auto"}
                                                 isEditing={true} onEdit={()=>{}}
                                             />
+                                            {modelCatalog.openrouter?.length > 0 && (
+                                                <select
+                                                    aria-label="Add an available OpenRouter model"
+                                                    value=""
+                                                    onChange={e => e.target.value && setOpenrouterModels(prev => [...prev.filter(m => m !== e.target.value), e.target.value])}
+                                                    style={{ marginTop: '0.5rem' }}
+                                                >
+                                                    <option value="">Add an available model ({modelCatalog.openrouter.length})...</option>
+                                                    {modelCatalog.openrouter.map(model => (
+                                                        <option key={model.id} value={model.id}>{model.id}{formatModelInfo(model) && ` (${formatModelInfo(model)})`}</option>
+                                                    ))}
+                                                </select>
+                                            )}
+                                            {modelCatalog.openrouter?.length > 0 && openrouterModels.some(m => !modelCatalog.openrouter.some(info => info.id === m)) && (
+                                                <p className="help-text" style={{ color: 'var(--warning-text-color)' }}>
+                                                    Not offered by OpenRouter anymore: {openrouterModels.filter(m => !modelCatalog.openrouter.some(info => info.id === m)).join(', ')}
+                                                </p>
+                                            )}
                                             <p className="help-text" style={{marginTop: '0.5rem'}}>
                                                 List models by priority. The tool will try them in order if one fails. Prioritize reliable models over free/unstable ones to avoid errors.
                                             </p>
@@ -3679,16 +7145,250 @@ const App = () => {
                                                 placeholder="Select or type a model name..."
                                             />
                                             <datalist id="groq-models-list">
-                                                {AI_MODELS.GROQ_MODELS.map(model => (
-                                                    <option key={model} value={model} />
+                                                {(modelCatalog.groq || AI_MODELS.GROQ_MODELS.map(id => ({ id, contextWindow: null, supportsJsonMode: null }))).map(model => (
+                                                    <option key={model.id} value={model.id}>{formatModelInfo(model)}</option>
                                                 ))}
                                             </datalist>
+                                            {modelCatalog.groq?.length > 0 && !modelCatalog.groq.some(model => model.id === selectedGroqModel) && (
+                                                <p className="help-text" style={{ color: 'var(--warning-text-color)' }}>
+                                                    "{selectedGroqModel}" is no longer offered by Groq. Choose one of the available models.
+                                                </p>
+                                            )}
                                             <p className="help-text" style={{marginTop: '0.5rem'}}>
-                                                Select a model from the list or type a custom model ID. Llama 3.1 70B offers the highest quality.
+                                                Select a model from the list or type a custom model ID. Llama 3.3 70B offers the highest quality.
                                             </p>
                                         </div>
                                     )}
                                 </fieldset>
+                                <fieldset className="config-fieldset">
+                                    <legend>Custom / Local</legend>
+                                    <div className="form-group">
+                                        <label htmlFor="localBaseUrl">Base URL (OpenAI-compatible)</label>
+                                        <ApiKeyInput provider="local" type="text" value={localModelConfig.baseUrl} onChange={handleLocalModelConfigChange} status={apiKeyStatus.local} name="baseUrl" placeholder="http://localhost:11434/v1" isEditing={true} onEdit={() => {}} />
+                                    </div>
+                                    <div className="form-group">
+                                        <label htmlFor="localModel">Model Name</label>
+                                        <input type="text" id="localModel" name="model" list="models-local" value={localModelConfig.model} onChange={handleLocalModelConfigChange} placeholder={AI_MODELS.LOCAL_DEFAULT} />
+                                    </div>
+                                    <div className="form-group" style={{ marginBottom: 0 }}>
+                                        <label htmlFor="localApiKey">API Key (optional)</label>
+                                        <input type="password" id="localApiKey" name="localApiKey" value={apiKeys.localApiKey || ''} onChange={handleApiKeyChange} placeholder="Leave empty if your server doesn't need one" />
+                                    </div>
+                                    <p className="help-text">
+                                        Ollama, llama.cpp server, vLLM or any other OpenAI-compatible endpoint. The server must allow browser requests (CORS), e.g. <code>OLLAMA_ORIGINS=*</code> for Ollama.
+                                        Batch API mode sends its jobs to this server's OpenAI-style <code>/files</code> and <code>/batches</code> routes, so a mock batch server can stand in for OpenAI when testing.
+                                    </p>
+                                </fieldset>
+                                <fieldset className="config-fieldset full-width">
+                                    <legend>Per-Stage Model Routing</legend>
+                                    <p className="help-text" style={{ margin: '0 0 1rem 0' }}>
+                                        Assign a provider and model to each generation stage, e.g. a strong model for outlines and a fast, cheap one for FAQ answers. Leave the model empty to use the provider's default.
+                                        Prompts are trimmed to fit each model's context window. Their size is estimated from character counts, at about 3 characters per token plus a margin, rather than counted with the provider's tokenizer, so the estimate errs high.
+                                    </p>
+                                    <div className="stage-routing-grid">
+                                        {PROMPT_STAGES.map(({ key, label }) => {
+                                            const route = stageRouting[key];
+                                            const { provider } = resolveStageRoute(stageRouting, key, selectedModel);
+                                            return (
+                                                <div key={key} className="stage-routing-row">
+                                                    <label htmlFor={`route-provider-${key}`}>{label}</label>
+                                                    <select id={`route-provider-${key}`} value={route.provider} onChange={e => handleStageRouteChange(key, { provider: e.target.value as StageRoute['provider'] })}>
+                                                        <option value="default">Default ({AI_PROVIDERS.find(p => p.id === selectedModel)?.label})</option>
+                                                        {AI_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                                                    </select>
+                                                    <input
+                                                        type="text"
+                                                        list={`models-${provider}`}
+                                                        aria-label={`${label} model`}
+                                                        value={route.model}
+                                                        onChange={e => handleStageRouteChange(key, { model: e.target.value })}
+                                                        placeholder={providerAdapters[provider]?.defaultModel || 'Provider default'}
+                                                    />
+                                                    {apiKeyStatus[provider] !== 'valid' && <span className="stage-routing-warning">Key not validated</span>}
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                    {(Object.entries(modelCatalog) as [string, ModelInfo[]][]).map(([provider, models]) => (
+                                        <datalist key={provider} id={`models-${provider}`}>
+                                            {models.map(model => <option key={model.id} value={model.id}>{formatModelInfo(model)}</option>)}
+                                        </datalist>
+                                    ))}
+                                </fieldset>
+                                <fieldset className="config-fieldset full-width">
+                                    <legend>Provider Failover</legend>
+                                    <p className="help-text" style={{ margin: '0 0 1rem 0' }}>
+                                        When a stage's provider still fails after its retries, the stage moves down this list in order. Which provider wrote each section is recorded in the article's Raw JSON.
+                                    </p>
+                                    <div className="failover-list">
+                                        {[...failoverChain, ...AI_PROVIDERS.map(p => p.id).filter(id => !failoverChain.includes(id))].map(id => {
+                                            const position = failoverChain.indexOf(id);
+                                            const enabled = position !== -1;
+                                            return (
+                                                <div key={id} className={`failover-row ${enabled ? 'enabled' : ''}`}>
+                                                    <input
+                                                        type="checkbox"
+                                                        id={`failover-${id}`}
+                                                        checked={enabled}
+                                                        onChange={e => handleToggleFailoverProvider(id, e.target.checked)}
+                                                        style={{ width: 'auto' }}
+                                                    />
+                                                    <label htmlFor={`failover-${id}`}>
+                                                        {enabled && <span className="failover-position">{position + 1}.</span>}
+                                                        {AI_PROVIDERS.find(p => p.id === id)?.label}
+                                                    </label>
+                                                    {enabled && apiKeyStatus[id] !== 'valid' && <span className="stage-routing-warning">Key not validated</span>}
+                                                    {enabled && (
+                                                        <div className="failover-order-buttons">
+                                                            <button className="btn btn-small btn-secondary" onClick={() => handleMoveFailoverProvider(id, -1)} disabled={position === 0} aria-label={`Move ${id} up`}>↑</button>
+                                                            <button className="btn btn-small btn-secondary" onClick={() => handleMoveFailoverProvider(id, 1)} disabled={position === failoverChain.length - 1} aria-label={`Move ${id} down`}>↓</button>
+                                                        </div>
+                                                    )}
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                </fieldset>
+                                <fieldset className="config-fieldset full-width">
+                                    <legend>Rate Limits</legend>
+                                    <p className="help-text" style={{ margin: '0 0 1rem 0' }}>
+                                        Requests and tokens per minute allowed for each service, shared by generation, health analysis and key validation. Match them to your plan's tier to avoid 429 errors. Use 0 for no limit. Tokens per minute are checked against the same character-based estimate as prompt sizes.
+                                    </p>
+                                    <div className="stage-routing-grid">
+                                        {RATE_LIMITED_SERVICES.map(({ id, label }) => (
+                                            <div key={id} className="rate-limit-row">
+                                                <label htmlFor={`rpm-${id}`}>{label}</label>
+                                                <input type="number" id={`rpm-${id}`} min="0" value={rateLimits[id]?.rpm ?? 0} onChange={e => handleRateLimitChange(id, 'rpm', e.target.value)} aria-label={`${label} requests per minute`} placeholder="RPM" />
+                                                <input type="number" min="0" value={rateLimits[id]?.tpm ?? 0} onChange={e => handleRateLimitChange(id, 'tpm', e.target.value)} aria-label={`${label} tokens per minute`} placeholder="TPM" disabled={id === 'serper'} />
+                                            </div>
+                                        ))}
+                                    </div>
+                                    <div className="form-group section-concurrency" style={{ marginBottom: 0 }}>
+                                        <label htmlFor="sectionConcurrency">Sections written in parallel per article</label>
+                                        <input
+                                            type="number"
+                                            id="sectionConcurrency"
+                                            min="1"
+                                            max={MAX_SECTION_CONCURRENCY}
+                                            value={sectionConcurrency}
+                                            onChange={e => setSectionConcurrency(Math.min(MAX_SECTION_CONCURRENCY, Math.max(1, Number(e.target.value) || 1)))}
+                                        />
+                                        <p className="help-text">Sections and FAQ answers are requested this many at a time. Requests beyond the limits above wait their turn, so 1 restores one-at-a-time writing. Sections go in waves of this size, and each wave is told what the earlier ones covered, so smaller waves repeat less.</p>
+                                    </div>
+                                </fieldset>
+                                <fieldset className="config-fieldset full-width">
+                                    <legend>Content Profiles</legend>
+                                    <p className="help-text" style={{ margin: '0 0 1rem 0' }}>
+                                        Length and structure requirements for each kind of article. The assigned profile sets the numbers in the outline and section prompts and the word-count, link and table checks.
+                                    </p>
+                                    <div className="profile-assignments">
+                                        {(Object.keys(DEFAULT_PROFILE_ASSIGNMENTS) as (keyof ProfileAssignments)[]).map(itemType => (
+                                            <div key={itemType} className="form-group">
+                                                <label htmlFor={`profile-for-${itemType}`}>{itemType.charAt(0).toUpperCase() + itemType.slice(1)} articles</label>
+                                                <select id={`profile-for-${itemType}`} value={profileAssignments[itemType]} onChange={e => setProfileAssignments(prev => ({ ...prev, [itemType]: e.target.value }))}>
+                                                    {contentProfiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+                                                </select>
+                                            </div>
+                                        ))}
+                                    </div>
+                                    <div className="content-profiles">
+                                        {contentProfiles.map(profile => (
+                                            <div key={profile.id} className="content-profile-card">
+                                                <div className="content-profile-header">
+                                                    <input type="text" value={profile.name} onChange={e => handleContentProfileChange(profile.id, { name: e.target.value })} aria-label="Profile name" />
+                                                    <button className="btn btn-small btn-secondary" onClick={() => handleDuplicateContentProfile(profile)}>Duplicate</button>
+                                                    <button className="btn btn-small btn-secondary" onClick={() => handleDeleteContentProfile(profile.id)} disabled={contentProfiles.length === 1}>Delete</button>
+                                                </div>
+                                                <div className="content-profile-fields">
+                                                    {CONTENT_PROFILE_FIELDS.map(({ key, label, min, max }) => (
+                                                        <label key={key} className="content-profile-field">
+                                                            <span>{label}</span>
+                                                            <input
+                                                                type="number"
+                                                                min={min}
+                                                                max={max}
+                                                                value={profile[key]}
+                                                                onChange={e => handleContentProfileChange(profile.id, { [key]: Math.min(max ?? Infinity, Math.max(min, Math.round(Number(e.target.value)) || min)) })}
+                                                            />
+                                                        </label>
+                                                    ))}
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                    <button className="btn btn-small btn-secondary" onClick={handleResetContentProfiles}>Reset to Defaults</button>
+                                </fieldset>
+                                <fieldset className="config-fieldset full-width">
+                                    <legend>Brand Voice</legend>
+                                    <p className="help-text" style={{ margin: '0 0 1rem 0' }}>
+                                        The site's style guide, given to every section, FAQ answer, introduction and conclusion. Banned terms also lower the article's human writing score. The voice is chosen per site: this choice applies to {currentSiteKey || 'articles with no WordPress site set'}, and articles crawled from another site use that site's choice.
+                                    </p>
+                                    <div className="content-profile-header">
+                                        <select value={activeVoice.id} onChange={e => setActiveVoiceId(e.target.value)} aria-label="Active voice profile">
+                                            {voiceProfiles.map(voice => <option key={voice.id} value={voice.id}>{voice.name}</option>)}
+                                        </select>
+                                        <button className="btn btn-small btn-secondary" onClick={handleDuplicateVoiceProfile}>Duplicate</button>
+                                        <button className="btn btn-small btn-secondary" onClick={handleDeleteVoiceProfile} disabled={voiceProfiles.length === 1}>Delete</button>
+                                    </div>
+                                    <div className="voice-profile-fields">
+                                        <div className="form-group">
+                                            <label htmlFor="voiceName">Name</label>
+                                            <input type="text" id="voiceName" value={activeVoice.name} onChange={e => handleVoiceProfileChange({ name: e.target.value })} />
+                                        </div>
+                                        <div className="form-group">
+                                            <label htmlFor="voiceReadingLevel">Reading level</label>
+                                            <input type="text" id="voiceReadingLevel" value={activeVoice.readingLevel} onChange={e => handleVoiceProfileChange({ readingLevel: e.target.value })} placeholder="e.g. Grade 8" />
+                                        </div>
+                                        <div className="form-group">
+                                            <label htmlFor="voicePointOfView">Point of view</label>
+                                            <input type="text" id="voicePointOfView" value={activeVoice.pointOfView} onChange={e => handleVoiceProfileChange({ pointOfView: e.target.value })} placeholder='e.g. First person plural ("we")' />
+                                        </div>
+                                        <div className="form-group full-width">
+                                            <label htmlFor="voiceTone">Tone</label>
+                                            <textarea id="voiceTone" rows={3} value={activeVoice.tone} onChange={e => handleVoiceProfileChange({ tone: e.target.value })} />
+                                        </div>
+                                        <div className="form-group">
+                                            <label htmlFor="voiceBannedTerms">Banned terms (one per line)</label>
+                                            <textarea id="voiceBannedTerms" rows={5} value={activeVoice.bannedTerms.join('\n')} onChange={e => handleVoiceProfileChange({ bannedTerms: e.target.value.split('\n') })} />
+                                        </div>
+                                        <div className="form-group">
+                                            <label htmlFor="voicePreferredTerms">Preferred terms (one per line)</label>
+                                            <textarea id="voicePreferredTerms" rows={5} value={activeVoice.preferredTerms.join('\n')} onChange={e => handleVoiceProfileChange({ preferredTerms: e.target.value.split('\n') })} />
+                                        </div>
+                                        <div className="form-group full-width" style={{ marginBottom: 0 }}>
+                                            <label htmlFor="voiceSamples">Sample paragraphs</label>
+                                            <textarea id="voiceSamples" rows={5} value={activeVoice.samples} onChange={e => handleVoiceProfileChange({ samples: e.target.value })} placeholder="Paste two or three paragraphs that sound like your site." />
+                                        </div>
+                                    </div>
+                                </fieldset>
+                                <fieldset className="config-fieldset full-width">
+                                    <legend>Prompt Templates</legend>
+                                    <p className="help-text" style={{ margin: '0 0 1rem 0' }}>
+                                        Override a stage's prompts without editing the source. Every save is kept as a named version; each generated article records the versions that wrote it.
+                                    </p>
+                                    <PromptTemplateEditor disabled={isGenerating} />
+                                </fieldset>
+                                <fieldset className="config-fieldset full-width">
+                                    <legend>Record &amp; Replay</legend>
+                                    <p className="help-text" style={{ margin: '0 0 1rem 0' }}>
+                                        Record captures every AI, Serper and image response of a run. Replay serves them back without calling any service, so pipeline changes can be checked offline and at no cost.
+                                    </p>
+                                    <div className="fixture-controls">
+                                        <select value={fixtureMode} onChange={e => setFixtureMode(e.target.value as FixtureMode)} aria-label="Fixture mode" disabled={isGenerating}>
+                                            <option value="off">Off (live calls)</option>
+                                            <option value="record">Record</option>
+                                            <option value="replay">Replay</option>
+                                        </select>
+                                        <span className="fixture-count">{fixtureCount} recorded</span>
+                                        <button className="btn btn-small btn-secondary" onClick={handleDownloadFixtures} disabled={fixtureCount === 0}>Download</button>
+                                        <label className="btn btn-small btn-secondary" style={{ marginBottom: 0 }}>
+                                            Load File
+                                            <input type="file" accept="application/json,.json" onChange={handleLoadFixtures} className="sr-only" />
+                                        </label>
+                                        <button className="btn btn-small btn-secondary" onClick={() => { fixtureStore.clear(); setFixtureMessage(''); }} disabled={fixtureCount === 0}>Clear</button>
+                                    </div>
+                                    {fixtureMessage && <p className="help-text">{fixtureMessage}</p>}
+                                </fieldset>
                                 <fieldset className="config-fieldset full-width">
                                     <legend>Advanced Settings</legend>
                                     <div className="form-group" style={{ display: 'flex', alignItems: 'center', gap: '1rem', marginBottom: 0 }}>
@@ -3711,6 +7411,13 @@ const App = () => {
                                             style={{ flexGrow: 2 }}
                                         />
                                     </div>
+                                    <div className="form-group" style={{ marginTop: '1rem', marginBottom: 0 }}>
+                                        <label htmlFor="contentLanguage">Content language</label>
+                                        <select id="contentLanguage" value={contentLanguage} onChange={e => setContentLanguage(e.target.value as ContentLanguage)}>
+                                            {(Object.entries(CONTENT_LANGUAGES) as [ContentLanguage, LanguageConfig][]).map(([code, { nativeName }]) => <option key={code} value={code}>{nativeName}</option>)}
+                                        </select>
+                                        <p className="help-text">The language articles are written in, unless an item sets its own. It also sets the search locale, the fixed headings, the readability formula and the AI-phrase list.</p>
+                                    </div>
                                 </fieldset>
                             </div>
                              <button className="btn" onClick={handleNextStep} disabled={apiKeyStatus[selectedModel as keyof typeof apiKeyStatus] !== 'valid' || apiKeyStatus.serper !== 'valid'}>
@@ -3916,6 +7623,7 @@ const App = () => {
                                             {isAnalyzingHealth ? `Analyzing... (${healthAnalysisProgress.current}/${healthAnalysisProgress.total})` : 'Analyze Content Health'}
                                         </button>
                                         {isAnalyzingHealth && <button className="btn btn-danger" onClick={handleStopHealthAnalysis}>Stop</button>}
+                                        <RateLimitStatus stats={rateLimiterStats} />
                                     </div>
                                     <div className="hub-actions-and-filters">
                                         <div className="hub-filters">
@@ -4041,6 +7749,33 @@ const App = () => {
                                     🚀 Bulk Publish Selected ({doneAndSelectedCount})
                                 </button>
                             </div>
+                            <div className="budget-controls">
+                                <label className="batch-mode-toggle" title="Send all section and FAQ prompts of the selected items as provider batch jobs: half price, but results can take hours. Outlines, images and schema still run live. Batched sections are written without the summary of what earlier sections cover.">
+                                    <input type="checkbox" checked={batchApiMode} onChange={e => setBatchApiMode(e.target.checked)} disabled={isGenerating} />
+                                    Batch API
+                                </label>
+                                <label className="batch-mode-toggle" title="Stop each item after its outline so headings, FAQ questions and takeaways can be edited before any section is written.">
+                                    <input type="checkbox" checked={pauseAfterOutline} onChange={e => setPauseAfterOutline(e.target.checked)} disabled={isGenerating} />
+                                    Pause after outline
+                                </label>
+                                <span className="batch-cost" title={describeCostSummary(batchCost)}>
+                                    Batch cost: <strong>{formatCost(batchCost.cost)}</strong>
+                                    {(batchCost.cacheHits > 0 || batchCost.cacheMisses > 0) && (
+                                        <span className="cache-stats"> · cache {batchCost.cacheHits} hit / {batchCost.cacheMisses} miss</span>
+                                    )}
+                                </span>
+                                <label htmlFor="budgetCap">Budget cap ($)</label>
+                                <input
+                                    type="number"
+                                    id="budgetCap"
+                                    min="0"
+                                    step="0.5"
+                                    value={budgetCap || ''}
+                                    placeholder="No limit"
+                                    onChange={(e) => setBudgetCap(Math.max(0, Number(e.target.value) || 0))}
+                                    disabled={isGenerating}
+                                />
+                            </div>
                             <input
                                 type="search"
                                 className="table-search-input"
@@ -4057,6 +7792,7 @@ const App = () => {
                                 </div>
                             </div>
                         )}
+                        <RateLimitStatus stats={rateLimiterStats} />
                         <div className="table-container">
                             <table className={`content-table ${isMobile ? 'mobile-cards' : ''}`}>
                                 <thead>
@@ -4070,7 +7806,9 @@ const App = () => {
                                         </th>
                                         <th className="sortable" onClick={() => handleSort('title')}>Title</th>
                                         <th className="sortable" onClick={() => handleSort('type')}>Type</th>
+                                        <th>Language</th>
                                         <th className="sortable" onClick={() => handleSort('status')}>Status</th>
+                                        <th className="numeric-cell">Cost</th>
                                         <th className="actions-cell">Actions</th>
                                     </tr>
                                 </thead>
@@ -4087,6 +7825,18 @@ const App = () => {
                                             </td>
                                             <td data-label="Title">{item.title}</td>
                                             <td data-label="Type" style={{textTransform: 'capitalize'}}>{item.type}</td>
+                                            <td data-label="Language">
+                                                <select
+                                                    className="item-language-select"
+                                                    value={item.language || ''}
+                                                    onChange={e => dispatch({ type: 'SET_LANGUAGE', payload: { id: item.id, language: (e.target.value || undefined) as ContentLanguage | undefined } })}
+                                                    disabled={item.status === 'generating'}
+                                                    aria-label={`Language for ${item.title}`}
+                                                >
+                                                    <option value="">Default ({CONTENT_LANGUAGES[contentLanguage].nativeName})</option>
+                                                    {(Object.entries(CONTENT_LANGUAGES) as [ContentLanguage, LanguageConfig][]).map(([code, { nativeName }]) => <option key={code} value={code}>{nativeName}</option>)}
+                                                </select>
+                                            </td>
                                             <td data-label="Status">
                                                  {item.status === 'generating' ? (
                                                     <div className="generation-in-progress">
@@ -4101,17 +7851,52 @@ const App = () => {
                                                     <span className={`status-cell status-${item.status}`}>
                                                         {item.status === 'done' && <span className="status-icon">✓</span>}
                                                         {item.status === 'error' && <span className="status-icon">✗</span>}
+                                                        {item.status === 'outline_ready' && <span className="status-icon">⏸</span>}
                                                         {item.statusText}
+                                                        {item.generatedContent?.trimmedInputs?.length > 0 && (
+                                                            <span className="trimmed-inputs-badge" title={item.generatedContent.trimmedInputs.map(({ stage, note }) => `${stage}: ${note}`).join('\n')}>
+                                                                Inputs trimmed
+                                                            </span>
+                                                        )}
+                                                        {Object.values(item.generatedContent?.promptVersions || {}).some(version => version !== 'default') && (
+                                                            <span className="trimmed-inputs-badge" title={Object.entries(item.generatedContent.promptVersions).filter(([, version]) => version !== 'default').map(([stage, version]) => `${stage}: ${version}`).join('\n')}>
+                                                                Custom prompts
+                                                            </span>
+                                                        )}
+                                                        {item.generatedContent?.repeatedParagraphs?.length > 0 && (
+                                                            <span className="trimmed-inputs-badge" title={item.generatedContent.repeatedParagraphs.map(({ section, repeatsSection }) => `"${section}" repeats "${repeatsSection}"`).join('\n')}>
+                                                                Repeated paragraphs
+                                                            </span>
+                                                        )}
                                                     </span>
                                                 )}
                                             </td>
+                                            <td data-label="Cost" className="numeric-cell">
+                                                {item.cost && (item.cost.promptTokens > 0 || item.cost.images > 0) ? (
+                                                    <span title={describeCostSummary(item.cost)}>
+                                                        {formatCost(item.cost.cost)}
+                                                    </span>
+                                                ) : '—'}
+                                            </td>
                                             <td data-label="Actions" className="actions-cell">
                                                 {item.status === 'generating' ? (
                                                     <button className="btn btn-small stop-generation-btn-row" onClick={() => handleStopGeneration(item.id)}>Stop</button>
                                                 ) : item.generatedContent ? (
                                                     <button className="btn btn-small" onClick={() => handleOpenReview(item)}>Review & Edit</button>
+                                                ) : item.status === 'outline_ready' ? (
+                                                    <div className="action-button-group">
+                                                        <button className="btn btn-small" onClick={() => setOutlineReviewItem(item)} disabled={isGenerating}>Review Outline</button>
+                                                        <button className="btn btn-small btn-secondary" onClick={() => { checkpointStore.clear(item.id); dispatch({ type: 'UPDATE_STATUS', payload: { id: item.id, status: 'idle', statusText: 'Not Started' } }); }} title="Discard the outline and start over">Reset</button>
+                                                    </div>
                                                 ) : (
-                                                    <button className="btn btn-small" onClick={() => handleGenerateSingle(item)}>Generate</button>
+                                                    <div className="action-button-group">
+                                                        <button className="btn btn-small" onClick={() => handleGenerateSingle(item)} title={checkpointStore.has(item.id) ? 'Continue from the last completed stage' : undefined}>
+                                                            {checkpointStore.has(item.id) ? 'Resume' : 'Generate'}
+                                                        </button>
+                                                        {checkpointStore.has(item.id) && (
+                                                            <button className="btn btn-small btn-secondary" onClick={() => checkpointStore.clear(item.id)} title="Discard saved progress and start over">Reset</button>
+                                                        )}
+                                                    </div>
                                                 )}
                                             </td>
                                         </tr>
@@ -4144,6 +7929,14 @@ const App = () => {
                     onPublishSuccess={handlePublishSuccess}
                 />
             }
+            {outlineReviewItem && checkpointStore.load(outlineReviewItem)?.metaAndOutline && (
+                <OutlineEditorModal
+                    item={outlineReviewItem}
+                    outline={checkpointStore.load(outlineReviewItem)!.metaAndOutline}
+                    onClose={() => setOutlineReviewItem(null)}
+                    onApprove={handleApproveOutline}
+                />
+            )}
             {selectedItemForReview && (
                 <ReviewModal
                     item={selectedItemForReview}
@@ -4153,6 +7946,9 @@ const App = () => {
                     wpPassword={wpPassword}
                     onPublishSuccess={handlePublishSuccess}
                     publishItem={publishItem}
+                    onRewriteSection={handleRewriteSection}
+                    onHumanizeSentences={handleHumanizeSentences}
+                    bannedTerms={reviewBannedTerms}
                 />
             )}
              <footer className="app-footer">
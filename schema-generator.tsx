@@ -69,6 +69,7 @@ function createArticleSchema(content: GeneratedContent, wpConfig: WpConfig, orgS
         "@type": "Article",
         "headline": content.title,
         "description": content.metaDescription,
+        "inLanguage": content.language || 'en',
         "image": content.imageDetails.map(img => img.generatedImageSrc).filter(Boolean),
         "datePublished": today,
         "dateModified": today,